@@ -0,0 +1,16 @@
+/**
+ * @fileoverview This file defines `AbortedError`, the error that an
+ * AsyncResult chain (or `AsyncResult.run`) settles with once the AbortSignal
+ * it was given is aborted.
+ */
+import { setCause } from "./utils.js";
+
+export class AbortedError extends Error {
+  public override readonly name = "AbortedError";
+  public declare readonly cause: unknown;
+
+  constructor(reason: unknown) {
+    super("The operation was aborted");
+    setCause(this, reason);
+  }
+}
@@ -1,8 +1,15 @@
 import assert from "node:assert";
 import { describe, it, mock } from "node:test";
 import { setTimeout } from "node:timers/promises";
+import { AbortedError } from "./AbortedError.js";
 import { AsyncResult } from "./AsyncResult.js";
-import { Err, Ok, Result } from "./Result.js";
+import type { Clock } from "./Clock.js";
+import { ContextError } from "./ContextError.js";
+import { ItemError } from "./ItemError.js";
+import { Err, Fail, Ok, Result } from "./Result.js";
+import { ResultError } from "./ResultError.js";
+import { RetryError, Schedule } from "./Schedule.js";
+import type { NonEmptyArray } from "./utils.js";
 
 class CustomError extends Error {
   public override readonly name = "CustomError";
@@ -62,6 +69,95 @@ describe("AsyncResult", () => {
     });
   });
 
+  describe("AsyncResult.fromPromise", () => {
+    it("should treat a resolved promise like AsyncResult() does", async () => {
+      const mapRejection = mock.fn((_e: unknown) => new CustomError());
+      const err = new AnotherError();
+
+      const result = AsyncResult.fromPromise(Promise.resolve(42), mapRejection);
+      const result2 = AsyncResult.fromPromise(
+        Promise.resolve(Err(err)),
+        mapRejection
+      );
+
+      assert.strictEqual(await result.valueOrReject(), 42);
+      assert.strictEqual(await result2.valueOrFallback((it) => it), err);
+      assert.strictEqual(mapRejection.mock.callCount(), 0);
+    });
+
+    it("should turn rejections into typed Errs", async () => {
+      const reason = new Error("Hi");
+      const mapRejection = mock.fn((e: unknown) => new CustomError("mapped"));
+
+      const result: AsyncResult<number, CustomError> = AsyncResult.fromPromise(
+        Promise.reject<number>(reason),
+        mapRejection
+      );
+
+      assert.deepStrictEqual(
+        await result.valueOrFallback(
+          (it) => it,
+          () => {
+            throw new Error("should not have been called");
+          }
+        ),
+        new CustomError("mapped")
+      );
+      assert.strictEqual(mapRejection.mock.callCount(), 1);
+      assert.strictEqual(mapRejection.mock.calls[0]?.arguments[0], reason);
+    });
+  });
+
+  describe("AsyncResult.fromFunc", () => {
+    it("should use the function's return value", async () => {
+      const result = AsyncResult.fromFunc(async () => 42);
+      const result2 = AsyncResult.fromFunc(() => Ok(42));
+
+      assert.strictEqual(await result.valueOrReject(), 42);
+      assert.strictEqual(await result2.valueOrReject(), 42);
+    });
+
+    it("should capture sync throws as rejections", async () => {
+      const err = new Error("Hi");
+      const result = AsyncResult.fromFunc((): number => {
+        throw err;
+      });
+
+      assert.strictEqual(
+        await result.valueOrFallback(
+          () => {
+            throw new Error("should not have been called");
+          },
+          (it) => it
+        ),
+        err
+      );
+    });
+
+    it("should map sync throws and rejections to Errs when given a mapper", async () => {
+      const mapRejection = (e: unknown) => new CustomError(String(e));
+
+      const result: AsyncResult<number, CustomError> = AsyncResult.fromFunc(
+        (): number => {
+          throw "sync";
+        },
+        mapRejection
+      );
+      const result2 = AsyncResult.fromFunc(async (): Promise<number> => {
+        throw "async";
+      }, mapRejection);
+
+      assert.deepStrictEqual(
+        await result.valueOrFallback((it) => it),
+        new CustomError("sync")
+      );
+      assert.deepStrictEqual(
+        await result2.valueOrFallback((it) => it),
+        new CustomError("async")
+      );
+    });
+  });
+
   describe("valueOrFallback", () => {
     it("should return the value if the result is Ok", async () => {
       const result = AsyncResult(Promise.resolve(42));
@@ -151,6 +247,107 @@ describe("AsyncResult", () => {
       });
       assert.rejects(() => result.valueOrReject(), error);
     });
+
+    it("should reject with a ResultError if the error isn't an Error", async () => {
+      const result = AsyncResult(Fail("INSUFFICIENT_FUNDS"));
+      await assert.rejects(
+        () => result.valueOrReject(),
+        new ResultError("INSUFFICIENT_FUNDS")
+      );
+    });
+  });
+
+  describe("expect, unwrapOr and unwrapErr", () => {
+    it("should resolve with the expected side, or reject/fall back", async () => {
+      const error = new CustomError();
+      const ok = AsyncResult(Ok(42)) as AsyncResult<number, CustomError>;
+      const err = AsyncResult(Err(error)) as AsyncResult<number, CustomError>;
+
+      assert.strictEqual(await ok.expect("should be ok"), 42);
+      await assert.rejects(
+        err.expect("should be ok"),
+        new ContextError("should be ok", error)
+      );
+      assert.strictEqual(await err.unwrapOr("fallback"), "fallback");
+      assert.strictEqual(await err.unwrapErr(), error);
+      await assert.rejects(ok.unwrapErr(), /Called unwrapErr\(\) on an Ok/);
+    });
+
+    it("should call the rejection callback, if given, when the AsyncResult is rejected", async () => {
+      const error = new CustomError();
+      const rejected = AsyncResult(Promise.reject(error));
+
+      assert.strictEqual(
+        await rejected.unwrapOr("fallback", (reason) => reason),
+        error
+      );
+      await assert.rejects(rejected.unwrapOr("fallback"), error);
+      await assert.rejects(rejected.expect("should be ok"), error);
+    });
+  });
+
+  describe("ok, err, isOkAnd and isErrAnd", () => {
+    it("should inspect the result without rejecting", async () => {
+      const error = new CustomError();
+      const ok = AsyncResult(Ok(42)) as AsyncResult<number, CustomError>;
+      const err = AsyncResult(Err(error)) as AsyncResult<number, CustomError>;
+      const rejected = AsyncResult(Promise.reject(error));
+
+      assert.strictEqual(await ok.ok(), 42);
+      assert.strictEqual(await err.ok(), undefined);
+      assert.strictEqual(await err.err(), error);
+      assert.strictEqual(await ok.isOkAnd((it) => it > 10), true);
+      assert.strictEqual(await err.isErrAnd((it) => it === error), true);
+      assert.strictEqual(await rejected.ok(() => "rejected"), "rejected");
+      assert.strictEqual(
+        await rejected.isOkAnd(
+          () => true,
+          () => false
+        ),
+        false
+      );
+      await assert.rejects(rejected.err(), error);
+    });
+  });
+
+  describe("match", () => {
+    it("should call the arm matching the Result and resolve with its value", async () => {
+      const err = new CustomError("hi");
+      const arms = {
+        ok: (v: number) => v * 2,
+        err: (e: CustomError) => e.message,
+      };
+
+      const result = AsyncResult<number, CustomError>(Ok(42)).match(arms);
+      const result2 = AsyncResult<number, CustomError>(Err(err)).match(arms);
+
+      assert.strictEqual(await result, 84);
+      assert.strictEqual(await result2, "hi");
+    });
+
+    it("should call the rejected arm, if given, for rejections", async () => {
+      const reason = new Error("Hi");
+      const rejected = mock.fn((it: unknown) => it);
+      const result = await AsyncResult(Promise.reject(reason)).match({
+        ok: () => "ok",
+        err: () => "err",
+        rejected,
+      });
+
+      assert.strictEqual(result, reason);
+      assert.strictEqual(rejected.mock.callCount(), 1);
+    });
+
+    it("should reject if there's no rejected arm", async () => {
+      const reason = new Error("Hi");
+      await assert.rejects(
+        AsyncResult(Promise.reject(reason)).match({
+          ok: () => "ok",
+          err: () => "err",
+        }),
+        reason
+      );
+    });
   });
 
   describe("then_", () => {
@@ -377,6 +574,150 @@ describe("AsyncResult", () => {
     });
   });
 
+  describe("context", () => {
+    it("should wrap an Err's error in a ContextError", async () => {
+      const error = new CustomError("ENOENT");
+      const result = AsyncResult<number, CustomError>(Err(error)).context(
+        "loading tenant config"
+      );
+      const contextError = await result.valueOrFallback((e) => e);
+
+      assert.ok(contextError instanceof ContextError);
+      assert.strictEqual(contextError.message, "loading tenant config");
+      assert.strictEqual(contextError.cause, error);
+    });
+
+    it("should leave Oks and rejections as-is", async () => {
+      const reason = new Error("Hi");
+
+      assert.strictEqual(
+        await AsyncResult(42).context("loading").valueOrReject(),
+        42
+      );
+      await assert.rejects(
+        AsyncResult(Promise.reject(reason)).context("loading").valueOrReject(),
+        reason
+      );
+    });
+  });
+
+  describe("catchUnderlyingInstanceOf", () => {
+    it("should look through ContextErrors to find the error to catch", async () => {
+      const result: AsyncResult<
+        string,
+        ContextError<AnotherError>
+      > = AsyncResult<never, CustomError | AnotherError>(
+        Err(new CustomError("Something went wrong"))
+      )
+        .context("loading")
+        .catchUnderlyingInstanceOf(CustomError, async (e) => e.message);
+
+      assert.strictEqual(await result.valueOrReject(), "Something went wrong");
+    });
+  });
+
+  describe("catchTag", () => {
+    class NotFoundError extends Error {
+      readonly _tag = "NotFound";
+    }
+    class ConflictError extends Error {
+      readonly _tag = "Conflict";
+    }
+
+    it("if the result is Err with the specified tag, should call the callback correctly", async () => {
+      const result = await AsyncResult<never, NotFoundError | ConflictError>(
+        Err(new NotFoundError("missing"))
+      )
+        .catchTag("NotFound", async (e) => Ok(e.message))
+        .valueOrReject();
+
+      assert.strictEqual(result, "missing");
+    });
+
+    it("if the result is Err with a different tag, should return the original error", async () => {
+      const cb = mock.fn((e: NotFoundError) => e.message);
+      const result: AsyncResult<string, ConflictError> = AsyncResult<
+        never,
+        NotFoundError | ConflictError
+      >(Err(new ConflictError())).catchTag("NotFound", cb);
+
+      assert.deepStrictEqual(
+        await result.valueOrFallback((it) => it),
+        new ConflictError()
+      );
+      assert.strictEqual(cb.mock.callCount(), 0);
+    });
+
+    it("if the AsyncResult is rejected, should call the rejection callback", async () => {
+      const result = await AsyncResult<never, NotFoundError>(
+        Promise.reject(new NotFoundError())
+      )
+        .catchTag(
+          "NotFound",
+          () => "err",
+          () => "rejection"
+        )
+        .valueOrReject();
+
+      assert.strictEqual(result, "rejection");
+    });
+  });
+
+  describe("catchTags", () => {
+    class NotFoundError extends Error {
+      readonly _tag = "NotFound";
+    }
+    class ConflictError extends Error {
+      readonly _tag = "Conflict";
+    }
+
+    it("should call the callback for the error's tag, if any", async () => {
+      const handlers = {
+        NotFound: async (_e: NotFoundError) => 404,
+        Conflict: (_e: ConflictError) => AsyncResult(Err(new CustomError())),
+      };
+
+      const result: AsyncResult<number, CustomError> = AsyncResult<
+        never,
+        NotFoundError | ConflictError
+      >(Err(new NotFoundError())).catchTags(handlers);
+      const result2 = AsyncResult<never, NotFoundError | ConflictError>(
+        Err(new ConflictError())
+      ).catchTags(handlers);
+      const result3: AsyncResult<never, ConflictError | CustomError> =
+        AsyncResult<never, NotFoundError | ConflictError>(
+          Err(new ConflictError())
+        ).catchTags({ NotFound: () => Err(new CustomError()) });
+
+      assert.strictEqual(await result.valueOrReject(), 404);
+      assert.deepStrictEqual(
+        await result2.valueOrFallback((it) => it),
+        new CustomError()
+      );
+      assert.deepStrictEqual(
+        await result3.valueOrFallback((it) => it),
+        new ConflictError()
+      );
+    });
+
+    it("should require every tag to be handled in the exhaustive variant", async () => {
+      const result: AsyncResult<number, never> = AsyncResult<
+        never,
+        NotFoundError | ConflictError
+      >(Err(new ConflictError())).catchTagsExhaustive({
+        NotFound: () => 404,
+        Conflict: () => 409,
+      });
+
+      assert.strictEqual(await result.valueOrReject(), 409);
+
+      AsyncResult<never, NotFoundError | ConflictError>(
+        Err(new ConflictError())
+        // @ts-expect-error
+      ).catchTagsExhaustive({ NotFound: () => 404 });
+    });
+  });
+
   describe("finally_", () => {
     it("should always call the callback function and return an equivalent result if it doesn't produce an error", async () => {
       const err = new CustomError("hello");
@@ -473,6 +814,101 @@ describe("AsyncResult", () => {
     });
   });
 
+  describe("map and mapErr", () => {
+    it("should transform only the matching side, without awaiting", async () => {
+      const error = new CustomError();
+      const promise = Promise.resolve(2);
+      const mapped: AsyncResult<Promise<number>, never> = AsyncResult(1).map(
+        () => promise
+      );
+      const mappedErr: AsyncResult<number, string> = (
+        AsyncResult(Err(error)) as AsyncResult<number, CustomError>
+      ).mapErr((it) => it.name);
+
+      assert.strictEqual((await mapped).data.value, promise);
+      assert.deepStrictEqual((await mappedErr).data, {
+        isOk: false,
+        value: "CustomError",
+      });
+      await assert.rejects(
+        AsyncResult(Promise.reject(error)).mapErr(() => "unused").resultPromise,
+        error
+      );
+    });
+  });
+
+  describe("flatMap and orElse", () => {
+    it("should accept Results, AsyncResults, and promises for Results", async () => {
+      const error = new CustomError();
+      const flatMapped: AsyncResult<number, CustomError> = AsyncResult(1)
+        .flatMap((it) => Ok(it + 1))
+        .flatMap((it) => AsyncResult(Ok(it + 1)))
+        .flatMap(async (it) => (it > 0 ? Ok(it + 1) : Err(error)));
+      const orElsed: AsyncResult<number | string, never> = (
+        AsyncResult(Err(error)) as AsyncResult<number, CustomError>
+      ).orElse(async (it) => Ok(it.name));
+
+      assert.deepStrictEqual(await flatMapped, Ok(4));
+      assert.deepStrictEqual(await orElsed, Ok("CustomError"));
+
+      function _typeTest() {
+        // @ts-expect-error plain values aren't wrapped in Ok.
+        AsyncResult(1).flatMap((it) => it + 1);
+      }
+    });
+  });
+
+  describe("tap and tapErr", () => {
+    it("should call the matching callback and return an equivalent result", async () => {
+      const onOk = mock.fn((_it: number) => "ignored");
+      const onErr = mock.fn((_it: CustomError) => "ignored");
+      const error = new CustomError();
+
+      assert.deepStrictEqual(
+        await AsyncResult(1).tap(onOk).tapErr(onErr),
+        Ok(1)
+      );
+      assert.deepStrictEqual(
+        await AsyncResult(Err(error)).tap(onOk).tapErr(onErr),
+        Err(error)
+      );
+      assert.deepStrictEqual(onOk.mock.calls[0]?.arguments, [1]);
+      assert.deepStrictEqual(onErr.mock.calls[0]?.arguments, [error]);
+    });
+  });
+
+  describe("flatten", () => {
+    it("should unwrap a nested Result or AsyncResult", async () => {
+      const error = new CustomError();
+      const flattened: AsyncResult<number, CustomError> = AsyncResult(
+        Ok(AsyncResult(Err(error)) as AsyncResult<number, CustomError>)
+      ).flatten();
+
+      assert.deepStrictEqual(await flattened, Err(error));
+      assert.deepStrictEqual(await AsyncResult(Ok(Ok(1))).flatten(), Ok(1));
+    });
+  });
+
+  describe("zip and zipWith", () => {
+    it("should combine two results, preferring the first Err", async () => {
+      const error = new CustomError();
+      const anotherError = new AnotherError();
+      const zipped: AsyncResult<[number, string], never> = AsyncResult(1).zip(
+        AsyncResult(Promise.resolve("a"))
+      );
+
+      assert.deepStrictEqual(await zipped, Ok([1, "a"]));
+      assert.deepStrictEqual(
+        await AsyncResult(Err(error)).zip(Err(anotherError)),
+        Err(error)
+      );
+      assert.deepStrictEqual(
+        await AsyncResult(2).zipWith(Ok(3), (a, b) => a * b),
+        Ok(6)
+      );
+    });
+  });
+
   describe("AsyncResult.all", () => {
     it("should return an Ok AsyncResult with an array of values if all results are Ok", async () => {
       const result = await AsyncResult.all([
@@ -507,6 +943,86 @@ describe("AsyncResult", () => {
     });
   });
 
+  describe("AsyncResult.allObject", () => {
+    it("should resolve with an object of the values, keyed like the input", async () => {
+      const result: AsyncResult<{ user: string; org: number }, CustomError> =
+        AsyncResult.allObject({
+          user: AsyncResult<string, CustomError>(
+            setTimeout(10).then((_) => "ethan")
+          ),
+          org: AsyncResult(Promise.resolve(1)),
+        });
+
+      assert.deepStrictEqual(await result.valueOrReject(), {
+        user: "ethan",
+        org: 1,
+      });
+    });
+
+    it("should have the same Err and rejection semantics as AsyncResult.all", async () => {
+      const error = new CustomError("1");
+      const hiError = new Error("Hi");
+
+      const result = await AsyncResult.allObject({
+        user: AsyncResult(Promise.resolve("ethan")),
+        org: AsyncResult(setTimeout(10).then((_) => Err(error))),
+        team: AsyncResult(Err(new AnotherError("2"))),
+      }).valueOrFallback((it) => it);
+
+      assert.deepStrictEqual(result, error);
+      await assert.rejects(
+        AsyncResult.allObject({
+          user: AsyncResult(Promise.resolve("ethan")),
+          org: AsyncResult(Promise.reject(hiError)),
+        }).valueOrReject(),
+        hiError
+      );
+    });
+  });
+
+  describe("AsyncResult.allSettledObject", () => {
+    it("should resolve with an object of the outcomes, keyed like the input", async () => {
+      const error = new CustomError("1");
+      const hiError = new Error("Hi");
+
+      const result = await AsyncResult.allSettledObject({
+        user: AsyncResult(Promise.resolve("ethan")),
+        org: AsyncResult(Err(error)),
+        team: AsyncResult(Promise.reject(hiError)),
+      }).valueOrReject();
+
+      assert.deepStrictEqual(result, {
+        user: { type: "ok", value: "ethan" },
+        org: { type: "err", value: error },
+        team: { type: "rejection", value: hiError },
+      });
+    });
+  });
+
+  describe("AsyncResult.allErrors", () => {
+    it("should wait for every AsyncResult and return all of their errors, in order", async () => {
+      const error = new CustomError("1");
+      const error2 = new AnotherError("2");
+
+      const result = await AsyncResult.allErrors([
+        AsyncResult(setTimeout(10).then((_) => Err(error))),
+        AsyncResult(Promise.resolve(1)),
+        AsyncResult(Err(error2)),
+      ]).valueOrFallback((it) => it);
+
+      const result2: AsyncResult<
+        [number, string],
+        NonEmptyArray<CustomError>
+      > = AsyncResult.allErrors([
+        AsyncResult<number, CustomError>(1),
+        AsyncResult<string, CustomError>(Promise.resolve("2")),
+      ]);
+
+      assert.deepStrictEqual(result, [error, error2]);
+      assert.deepStrictEqual(await result2.valueOrReject(), [1, "2"]);
+    });
+  });
+
   describe("AsyncResult.allSettled", () => {
     it("should return a settled result for all given AsyncResults", async () => {
       const err = new Error("hi");
@@ -559,6 +1075,89 @@ describe("AsyncResult", () => {
     });
   });
 
+  describe("AsyncResult.any", () => {
+    it("should return the first AsyncResult to become an Ok", async () => {
+      const result: AsyncResult<
+        number | string,
+        AggregateError & { errors: CustomError[] }
+      > = AsyncResult.any([
+        AsyncResult<number, never>(setTimeout(50).then((_) => 1)),
+        AsyncResult<never, CustomError>(
+          setTimeout(0).then((_) => Err(new CustomError()))
+        ),
+        AsyncResult<string, never>(setTimeout(5).then((_) => "2")),
+      ]);
+
+      assert.strictEqual(await result.valueOrReject(), "2");
+    });
+
+    it("should return an AggregateError of all the errors, in order, if none are Ok", async () => {
+      const error = new CustomError("1");
+      const error2 = new AnotherError("2");
+      const result = await AsyncResult.any([
+        AsyncResult(setTimeout(10).then((_) => Err(error))),
+        AsyncResult(Err(error2)),
+      ]).valueOrFallback((it) => it);
+
+      assert.deepStrictEqual(result, new AggregateError([error, error2]));
+      assert.deepStrictEqual(result.errors, [error, error2]);
+    });
+
+    it("should reject if an AsyncResult rejects before an Ok is found", async () => {
+      await assert.rejects(
+        AsyncResult.any([
+          AsyncResult(setTimeout(10).then((_) => 1)),
+          AsyncResult(Promise.reject(new Error("Hi"))),
+        ]).valueOrReject(),
+        new Error("Hi")
+      );
+    });
+  });
+
+  describe("AsyncResult.raceOk", () => {
+    it("should resolve with the first Ok, and abort the other attempts", async () => {
+      const signals: AbortSignal[] = [];
+      const mirror =
+        <T>(ms: number, result: Result<T, CustomError>) =>
+        async (signal: AbortSignal) => {
+          signals.push(signal);
+          await setTimeout(ms);
+          return result;
+        };
+
+      const result: AsyncResult<
+        number | string,
+        AggregateError & { errors: CustomError[] }
+      > = AsyncResult.raceOk([
+        mirror(0, Err(new CustomError())),
+        mirror(5, Ok(1)),
+        mirror(50, Ok("2")),
+      ]);
+
+      assert.strictEqual(await result.valueOrReject(), 1);
+      assert.strictEqual(signals.length, 3);
+      assert.ok(signals.every((it) => it.aborted));
+    });
+
+    it("should only count rejections as failed attempts if asked to", async () => {
+      const hiError = new Error("Hi");
+      const fns = [
+        async () => {
+          throw hiError;
+        },
+        () => AsyncResult(setTimeout(5).then((_) => Err(new CustomError()))),
+      ];
+
+      await assert.rejects(AsyncResult.raceOk(fns).valueOrReject(), hiError);
+
+      const result = await AsyncResult.raceOk(fns, {
+        rejectionsAsErrs: true,
+      }).valueOrFallback((it) => it);
+
+      assert.deepStrictEqual(result.errors, [hiError, new CustomError()]);
+    });
+  });
+
   describe("AsyncResult.compose", () => {
     it("should compose all the functions with then_", async () => {
       const fn1 = (x: number) => Ok("hello".repeat(x));
@@ -578,6 +1177,123 @@ describe("AsyncResult", () => {
         new CustomError()
       );
     });
+
+    it("should accept functions returning plain values, promises, and AsyncResults", async () => {
+      const parse = (x: string) =>
+        x === "" ? Err(new CustomError()) : Ok(Number(x));
+      const double = async (x: number) => x * 2;
+      const check = (x: number) =>
+        AsyncResult(x > 0 ? Ok(x) : Err(new Error()));
+
+      const composed: (v: string) => AsyncResult<number, CustomError | Error> =
+        AsyncResult.compose(parse, double, check);
+      const composedLong: (
+        v: string
+      ) => AsyncResult<number, CustomError | Error> = AsyncResult.compose(
+        parse,
+        check,
+        double,
+        double,
+        double,
+        double,
+        double,
+        double,
+        double,
+        double,
+        double,
+        double
+      );
+
+      assert.deepStrictEqual(await composed("2"), Ok(4));
+      assert.deepStrictEqual(await composed("-1"), Err(new Error()));
+      assert.deepStrictEqual(await composedLong("1"), Ok(1024));
+      assert.deepStrictEqual(
+        await AsyncResult.compose(double, String)(2),
+        Ok("4")
+      );
+
+      function _typeTest() {
+        AsyncResult.compose(
+          double,
+          (x) => String(x),
+          // @ts-expect-error check takes a number, not a string.
+          (x) => check(x)
+        );
+      }
+    });
+
+    it("should infer the functions' types in long compositions", async () => {
+      const composed: (v: string) => AsyncResult<string, CustomError> =
+        AsyncResult.compose(
+          (v: string) => (v === "" ? Err(new CustomError()) : Ok(Number(v))),
+          (x) => AsyncResult(Ok(x + 1)),
+          async (x) => x * 2,
+          (x) => x + 1,
+          async (x) => Ok(x + 1),
+          (x) => AsyncResult(Ok(x + 1)),
+          async (x) => x * 2,
+          (x) => x + 1,
+          async (x) => Ok(x + 1),
+          (x) => String(x)
+        );
+
+      assert.deepStrictEqual(await composed("1"), Ok("16"));
+      assert.deepStrictEqual(await composed(""), Err(new CustomError()));
+    });
+
+    it("should check compositions of more than 16 functions", async () => {
+      const parse = (x: string) =>
+        x === "" ? Err(new CustomError()) : Ok(Number(x));
+      const double = async (x: number) => x * 2;
+
+      const composed: (v: string) => AsyncResult<number, CustomError> =
+        AsyncResult.compose(
+          parse,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double
+        );
+      assert.deepStrictEqual(await composed("1"), Ok(131072));
+      assert.deepStrictEqual(await composed(""), Err(new CustomError()));
+
+      function _typeTest() {
+        AsyncResult.compose(
+          parse,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          String,
+          // @ts-expect-error the function before this one returns a string.
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double
+        );
+      }
+    });
   });
 
   describe("AsyncResult.run", () => {
@@ -694,36 +1410,1036 @@ describe("AsyncResult", () => {
       assert.strictEqual(finallyRan3, true);
       assert.strictEqual(finallyRan4, true);
     });
-  });
-});
 
-describe("AsyncResult.prototype.thenChain", () => {
-  it("should call a single callback with the value and empty history", async () => {
-    const cb = mock.fn(async (x: number, history: []) => x + 1);
-    const result = AsyncResult(1).thenChain(cb);
-    assert.deepStrictEqual(await result.valueOrReject(), 2);
-    assert.strictEqual(cb.mock.callCount(), 1);
-    assert.deepStrictEqual(cb.mock.calls[0]?.arguments, [1, []]);
-  });
+    it("should support async generators", async () => {
+      const hiError = new Error("Hi");
+      const customError = new CustomError("Failed");
 
-  it("should chain two callbacks, passing correct history", async () => {
-    const cb1 = mock.fn(async (x: number, history: []) => x + 1);
-    const cb2 = mock.fn(async (x: number, history: [number]) => x * 2);
-    const result = AsyncResult(1).thenChain(cb1, cb2);
-    assert.deepStrictEqual(await result.valueOrReject(), 4);
-    assert.strictEqual(cb1.mock.callCount(), 1);
-    assert.strictEqual(cb2.mock.callCount(), 1);
-    assert.deepStrictEqual(cb1.mock.calls[0]?.arguments, [1, []]);
-    assert.deepStrictEqual(cb2.mock.calls[0]?.arguments, [2, [1]]);
-  });
+      async function* numbers() {
+        yield 1;
+        yield 2;
+      }
 
-  it("should chain three callbacks, passing correct history", async () => {
-    const cb1 = mock.fn(async (x: number, history: []) => x + 1);
-    const cb2 = mock.fn(async (x: number, history: [number]) => x * 2);
-    const cb3 = mock.fn(async (x: number, history: [number, number]) =>
-      Ok(x - 3)
-    );
-    const result = AsyncResult(1).thenChain(cb1, cb2, cb3);
+      const result: AsyncResult<number, CustomError> = AsyncResult.run(
+        async function* () {
+          const x = yield* Ok(42);
+          const y = yield* AsyncResult(Promise.resolve(Ok("43")));
+          const z = await Promise.resolve(1);
+          let sum = 0;
+          for await (const n of numbers()) {
+            sum += n;
+          }
+          if (Math.random() > 2) {
+            yield* Err(customError);
+          }
+          return x + parseInt(y) + z + sum;
+        }
+      );
+
+      let finallyRan = false;
+      const result2 = AsyncResult.run(async function* () {
+        try {
+          yield* AsyncResult(Err(customError));
+          return 42;
+        } finally {
+          await setTimeout(0);
+          finallyRan = true;
+        }
+      });
+
+      let finallyRan2 = false;
+      let caught: unknown = undefined;
+      const result3 = await AsyncResult.run(async function* () {
+        try {
+          yield* AsyncResult(Promise.reject(hiError));
+        } catch (e) {
+          // rejections shouldn't be thrown into the generator; like Errs, they
+          // just stop the computation.
+          caught = e;
+        } finally {
+          finallyRan2 = true;
+        }
+      }).valueOrFallback(
+        () => {
+          throw new Error("should not have been called");
+        },
+        (it) => it
+      );
+
+      const result4 = await AsyncResult.run(async function* () {
+        const _x = yield* Ok(42);
+        await setTimeout(0);
+        throw hiError;
+      }).valueOrFallback(
+        () => {
+          throw new Error("should not have been called");
+        },
+        (it) => it
+      );
+
+      assert.strictEqual(await result.valueOrReject(), 89);
+      assert.strictEqual(
+        await result2.valueOrFallback((it) => it),
+        customError
+      );
+      assert.strictEqual(result3, hiError);
+      assert.strictEqual(result4, hiError);
+
+      assert.strictEqual(finallyRan, true);
+      assert.strictEqual(finallyRan2, true);
+      assert.strictEqual(caught, undefined);
+    });
+  });
+
+  describe("AsyncResult.fn", () => {
+    it("should run the generator with the function's arguments and `this`", async () => {
+      const load = AsyncResult.fn(async function* (
+        id: number,
+        label: string = "user"
+      ) {
+        const found = yield* AsyncResult(
+          id > 0 ? Ok(id) : Err(new CustomError("Not found"))
+        );
+        await setTimeout(0);
+        const name = yield* found === 1 ? Ok(`${label} 1`) : Fail("UNNAMED");
+        return name;
+      });
+
+      const _typed: (
+        id: number,
+        label?: string
+      ) => AsyncResult<string, CustomError | "UNNAMED"> = load;
+      assert.deepStrictEqual(await load(1), Ok("user 1"));
+      assert.deepStrictEqual(await load(1, "admin"), Ok("admin 1"));
+      assert.deepStrictEqual(await load(2), Fail("UNNAMED"));
+      assert.deepStrictEqual(await load(0), Err(new CustomError("Not found")));
+
+      const cache = {
+        values: new Map([["a", 1]]),
+        get: AsyncResult.fn(function* (
+          this: { values: Map<string, number> },
+          key: string
+        ) {
+          const value = this.values.get(key);
+          return yield* value === undefined ? Fail("MISSING") : Ok(value);
+        }),
+      };
+      assert.deepStrictEqual(await cache.get("a"), Ok(1));
+      assert.deepStrictEqual(await cache.get("b"), Fail("MISSING"));
+
+      function _typeTest() {
+        // @ts-expect-error the arguments are typed.
+        load("1");
+        // @ts-expect-error `get` needs a `this` with values.
+        (0, cache.get)("a");
+      }
+    });
+
+    it("should name the function after the generator, or the given name", () => {
+      const named = AsyncResult.fn(async function* loadUser() {
+        return yield* Ok(1);
+      });
+      const labelled = AsyncResult.fn(
+        async function* () {
+          return yield* Ok(1);
+        },
+        { name: "users.load" }
+      );
+
+      assert.strictEqual(named.name, "loadUser");
+      assert.strictEqual(labelled.name, "users.load");
+    });
+  });
+
+  describe("AsyncResult.defer", () => {
+    it("should run (async) finalizers in LIFO order, however the generator finishes", async () => {
+      const hiError = new Error("Hi");
+      const calls: string[] = [];
+      const deferLog = (label: string) =>
+        AsyncResult.defer(async () => {
+          await setTimeout(0);
+          calls.push(label);
+        });
+
+      const result = await AsyncResult.run(function* () {
+        yield* deferLog("first");
+        const x = yield* AsyncResult(Promise.resolve(42));
+        yield* deferLog("second");
+        return x;
+      }).valueOrReject();
+
+      const result2 = await AsyncResult.run(async function* () {
+        yield* deferLog("third");
+        yield* AsyncResult(Err(new CustomError()));
+      }).valueOrFallback((it) => it);
+
+      const result3 = await AsyncResult.run(async function* () {
+        yield* deferLog("fourth");
+        yield* AsyncResult(Promise.reject(hiError));
+      }).valueOrFallback(
+        () => {
+          throw new Error("should not have been called");
+        },
+        (it) => it
+      );
+
+      assert.strictEqual(result, 42);
+      assert.deepStrictEqual(result2, new CustomError());
+      assert.strictEqual(result3, hiError);
+      assert.deepStrictEqual(calls, ["second", "first", "third", "fourth"]);
+    });
+
+    it("should surface a finalizer's Err, combining it with the run's Err", async () => {
+      const err = new CustomError("Failed");
+      const releaseErr = new AnotherError("Release failed");
+
+      const result: AsyncResult<number, AnotherError | AggregateError> =
+        AsyncResult.run(function* () {
+          yield* AsyncResult.defer(async () => Err(releaseErr));
+          return 42;
+        });
+
+      const result2 = AsyncResult.run(function* () {
+        yield* AsyncResult.defer(() => AsyncResult(Err(releaseErr)));
+        yield* Err(err);
+      });
+
+      assert.strictEqual(await result.valueOrFallback((e) => e), releaseErr);
+      assert.deepStrictEqual(
+        await result2.valueOrFallback((e) => e),
+        new AggregateError([err, releaseErr])
+      );
+    });
+
+    it("should dispose resources declared with `await using`", async () => {
+      const dispose = mock.fn(async () => {});
+      const result = await AsyncResult.run(async function* () {
+        await using _resource = yield* AsyncResult(
+          Promise.resolve({ [Symbol.asyncDispose]: dispose })
+        );
+        yield* Err(new CustomError());
+        return 42;
+      }).valueOrFallback((it) => it);
+
+      assert.deepStrictEqual(result, new CustomError());
+      assert.strictEqual(dispose.mock.callCount(), 1);
+    });
+  });
+
+  describe("AsyncResult.bracket", () => {
+    it("should acquire, use, and release the resource", async () => {
+      const calls: string[] = [];
+      const result = await AsyncResult.bracket(
+        async () => {
+          calls.push("acquire");
+          return "conn";
+        },
+        async (conn) => {
+          calls.push(`use ${conn}`);
+          return 42;
+        },
+        async (conn) => {
+          calls.push(`release ${conn}`);
+        }
+      ).valueOrReject();
+
+      assert.strictEqual(result, 42);
+      assert.deepStrictEqual(calls, ["acquire", "use conn", "release conn"]);
+    });
+
+    it("should release the resource if using it fails, but not if acquiring it fails", async () => {
+      const err = new CustomError("Failed");
+      const hiError = new Error("Hi");
+      const release = mock.fn((_conn: string) => {});
+
+      const result = await AsyncResult.bracket(
+        () => Ok("conn"),
+        () => Err(err),
+        release
+      ).valueOrFallback((it) => it);
+
+      const result2 = await AsyncResult.bracket(
+        () => Ok("conn"),
+        async () => {
+          throw hiError;
+        },
+        release
+      ).valueOrFallback(
+        () => {
+          throw new Error("should not have been called");
+        },
+        (it) => it
+      );
+
+      const result3 = await AsyncResult.bracket(
+        () => Err(err),
+        () => 42,
+        release
+      ).valueOrFallback((it) => it);
+
+      assert.strictEqual(result, err);
+      assert.strictEqual(result2, hiError);
+      assert.strictEqual(result3, err);
+      assert.strictEqual(release.mock.callCount(), 2);
+    });
+
+    it("should surface release failures as typed Errs", async () => {
+      const err = new CustomError("Failed");
+      const releaseErr = new AnotherError("Release failed");
+
+      const result: AsyncResult<
+        number,
+        CustomError | AnotherError | AggregateError
+      > = AsyncResult.bracket(
+        () => Ok("conn"),
+        () => (Math.random() > 2 ? Err(err) : Ok(42)),
+        () => Err(releaseErr)
+      );
+
+      const result2 = AsyncResult.bracket(
+        () => Ok("conn"),
+        () => Err(err),
+        () => Err(releaseErr)
+      );
+
+      assert.strictEqual(await result.valueOrFallback((it) => it), releaseErr);
+      assert.deepStrictEqual(
+        await result2.valueOrFallback((it) => it),
+        new AggregateError([err, releaseErr])
+      );
+    });
+
+    it("should dispose the resource if no release function is given", async () => {
+      const dispose = mock.fn(() => {});
+      const asyncDispose = mock.fn(async () => {});
+
+      await AsyncResult.bracket(
+        () => ({ [Symbol.dispose]: dispose }),
+        () => 42
+      );
+      await AsyncResult.bracket(
+        () => ({ [Symbol.asyncDispose]: asyncDispose }),
+        () => 42
+      );
+
+      assert.strictEqual(dispose.mock.callCount(), 1);
+      assert.strictEqual(asyncDispose.mock.callCount(), 1);
+
+      const _typeTest = () => {
+        // @ts-expect-error
+        AsyncResult.bracket(() => "conn", () => 42);
+      };
+    });
+  });
+
+  describe("AsyncResult.prototype.timeout", () => {
+    class TimeoutError extends Error {
+      public override readonly name = "TimeoutError";
+    }
+
+    it("should become an Err if the AsyncResult doesn't settle in time", async () => {
+      const result: AsyncResult<number, CustomError | TimeoutError> =
+        AsyncResult.delay(
+          50,
+          Math.random() > 2 ? Ok(42) : Err(new CustomError())
+        ).timeout(1, () => new TimeoutError());
+
+      assert.deepStrictEqual(
+        await result.valueOrFallback((it) => it),
+        new TimeoutError()
+      );
+    });
+
+    it("should reject if onTimeout throws", async () => {
+      const hiError = new Error("Hi");
+      const result = AsyncResult.delay(50, 42).timeout(1, () => {
+        throw hiError;
+      });
+
+      await assert.rejects(result.valueOrReject(), hiError);
+    });
+
+    it("should settle like the original if it settles in time, and clear the timer", async () => {
+      const clearTimeout = mock.method(globalThis, "clearTimeout");
+      const hiError = new Error("Hi");
+
+      const result = await AsyncResult(Promise.resolve(42))
+        .timeout(60_000, () => new TimeoutError())
+        .valueOrReject();
+
+      const result2 = await AsyncResult(Err(new CustomError()))
+        .timeout(60_000, () => new TimeoutError())
+        .valueOrFallback((it) => it);
+
+      await assert.rejects(
+        AsyncResult(Promise.reject(hiError))
+          .timeout(60_000, () => new TimeoutError())
+          .valueOrReject(),
+        hiError
+      );
+
+      assert.strictEqual(result, 42);
+      assert.deepStrictEqual(result2, new CustomError());
+      assert.strictEqual(clearTimeout.mock.callCount(), 3);
+      clearTimeout.mock.restore();
+    });
+  });
+
+  describe("AsyncResult.delay/AsyncResult.sleep", () => {
+    it("should resolve with the value after the delay", async () => {
+      const start = Date.now();
+      const result = await AsyncResult.delay(20, 42).valueOrReject();
+      const result2 = await AsyncResult.delay(
+        1,
+        Err(new CustomError())
+      ).valueOrFallback((it) => it);
+
+      assert.strictEqual(result, 42);
+      assert.deepStrictEqual(result2, new CustomError());
+      assert.ok(Date.now() - start >= 19);
+    });
+
+    it("should reject after the delay if the value rejects", async () => {
+      const start = Date.now();
+      const error = new CustomError();
+
+      await assert.rejects(
+        AsyncResult.delay(20, Promise.reject(error)).valueOrReject(),
+        error
+      );
+      assert.ok(Date.now() - start >= 19);
+    });
+
+    it("should be usable with yield* in AsyncResult.run", async () => {
+      const start = Date.now();
+      const result = await AsyncResult.run(function* () {
+        yield* AsyncResult.sleep(20);
+        return 42;
+      }).valueOrReject();
+
+      assert.strictEqual(result, 42);
+      assert.ok(Date.now() - start >= 19);
+    });
+  });
+
+  describe("AsyncResult cancellation", () => {
+    const never = () => new Promise<never>(() => {});
+
+    it("should become an AbortedError Err, holding the reason, once the signal aborts", async () => {
+      const controller = new AbortController();
+      const result: AsyncResult<number, AbortedError> = AsyncResult(never(), {
+        signal: controller.signal,
+      });
+
+      controller.abort("Gave up");
+      const error = await result.valueOrFallback((it) => it);
+
+      assert.ok(error instanceof AbortedError);
+      assert.strictEqual(error.cause, "Gave up");
+    });
+
+    it("should skip then_/thenChain callbacks, but not error callbacks, once aborted", async () => {
+      const controller = new AbortController();
+      const okCb = mock.fn((it: number) => it);
+      const chainCb = mock.fn((it: number) => it);
+      const finallyCb = mock.fn(() => {});
+
+      const result = AsyncResult(never(), { signal: controller.signal })
+        .then_(okCb)
+        .thenChain(chainCb)
+        .finally_(finallyCb)
+        .catch_((e) => (e instanceof AbortedError ? Ok("aborted") : Err(e)));
+
+      controller.abort();
+
+      assert.strictEqual(await result.valueOrReject(), "aborted");
+      assert.strictEqual(okCb.mock.callCount(), 0);
+      assert.strictEqual(chainCb.mock.callCount(), 0);
+      assert.strictEqual(finallyCb.mock.callCount(), 1);
+    });
+
+    it("should skip the callbacks after the one that was running when the signal aborted", async () => {
+      const controller = new AbortController();
+      const laterCb = mock.fn((it: number) => it);
+
+      const result = await AsyncResult(1, { signal: controller.signal })
+        .thenChain((it) => {
+          controller.abort();
+          return it + 1;
+        }, laterCb)
+        .valueOrFallback((it) => it);
+
+      assert.ok(result instanceof AbortedError);
+      assert.strictEqual(laterCb.mock.callCount(), 0);
+    });
+
+    it("should keep the signal only on AsyncResults that can still be aborted", () => {
+      const { signal } = new AbortController();
+      const result = AsyncResult(1, { signal });
+
+      assert.strictEqual(result.then_((it) => it + 1).signal, signal);
+      assert.strictEqual(result.map(String).tapErr(() => {}).signal, signal);
+      assert.strictEqual(result.catch_(() => 0).signal, undefined);
+      assert.strictEqual(result.mapErr(() => "mapped").signal, undefined);
+      assert.strictEqual(result.context("loading").signal, undefined);
+      assert.strictEqual(result.finally_(() => {}).signal, undefined);
+    });
+
+    it("should settle AsyncResults that carry the signal even if what they're waiting for never does", async () => {
+      const controller = new AbortController();
+      const { signal } = controller;
+      const finallyCb = mock.fn(() => {});
+
+      const results = [
+        AsyncResult(1, { signal }).then_(() => never()),
+        AsyncResult(1, { signal }).zip(AsyncResult(never())),
+        AsyncResult(1, { signal })
+          .zip(AsyncResult(never()))
+          .finally_(finallyCb),
+        AsyncResult(1, { signal })
+          .then_(() => never())
+          .timeout(60_000, () => new CustomError()),
+      ];
+
+      controller.abort();
+
+      for (const result of results) {
+        assert.ok(
+          (await result.valueOrFallback((it) => it)) instanceof AbortedError
+        );
+      }
+      assert.strictEqual(finallyCb.mock.callCount(), 1);
+    });
+
+    it("should have finally_ pass on the outcome it received", async () => {
+      const { signal } = new AbortController();
+      const error = new Error("Boom");
+
+      assert.deepStrictEqual(
+        await AsyncResult(1, { signal }).finally_(() => {}),
+        Ok(1)
+      );
+      assert.deepStrictEqual(
+        await AsyncResult(Err(error), { signal }).finally_(() => {}),
+        Err(error)
+      );
+      await assert.rejects(
+        AsyncResult(Promise.reject(error), { signal })
+          .finally_(() => {})
+          .valueOrReject(),
+        error
+      );
+    });
+
+    it("should let callbacks reach the signal through the AsyncResult's signal property", async () => {
+      const controller = new AbortController();
+      let seen: AbortSignal | undefined;
+
+      const user = AsyncResult(1, { signal: controller.signal });
+      const result = user.then_(async (id) => {
+        seen = user.signal;
+        await setTimeout(60_000, undefined, { signal: user.signal });
+        return id;
+      });
+
+      await setTimeout(0);
+      controller.abort();
+
+      assert.ok(
+        (await result.valueOrFallback((it) => it)) instanceof AbortedError
+      );
+      assert.strictEqual(seen, controller.signal);
+    });
+
+    it("should not abort callbacks after an error callback that could have handled the abort", async () => {
+      const controller = new AbortController();
+      const result: AsyncResult<number, never> = AsyncResult(never(), {
+        signal: controller.signal,
+      })
+        .catch_(() => 0)
+        .then_((it) => it + 1);
+
+      controller.abort();
+      assert.deepStrictEqual(await result, Ok(1));
+
+      const controller2 = new AbortController();
+      const result2 = AsyncResult(1, { signal: controller2.signal })
+        .catch_(() => 0)
+        .then_(async (it) => {
+          controller2.abort();
+          await setTimeout(0);
+          return it + 1;
+        })
+        .then_((it) => it * 2);
+
+      assert.deepStrictEqual(await result2, Ok(4));
+    });
+
+    it("should call callbacks with just the value, so functions can be passed point-free", async () => {
+      const { signal } = new AbortController();
+      const parsed = await AsyncResult("11", { signal })
+        .then_(parseInt)
+        .valueOrReject();
+      const json = await AsyncResult(Promise.resolve('{"a":1}'), { signal })
+        .then_(JSON.parse)
+        .valueOrReject();
+
+      assert.strictEqual(parsed, 11);
+      assert.deepStrictEqual(json, { a: 1 });
+    });
+
+    it("should not call fromFunc's function if the signal's already aborted", async () => {
+      const fn = mock.fn(() => 42);
+      const result = await AsyncResult.fromFunc(fn, {
+        signal: AbortSignal.abort("Too late"),
+      }).valueOrFallback((it) => it);
+
+      assert.ok(result instanceof AbortedError);
+      assert.strictEqual(result.cause, "Too late");
+      assert.strictEqual(fn.mock.callCount(), 0);
+    });
+
+    it("should return the generator early, and run its finalizers, when a run is aborted", async () => {
+      const controller = new AbortController();
+      const calls: string[] = [];
+      let receivedSignal: AbortSignal | undefined;
+
+      const result: AsyncResult<
+        number,
+        CustomError | AbortedError | AggregateError
+      > = AsyncResult.run(
+        function* (signal) {
+          receivedSignal = signal;
+          yield* AsyncResult.defer(() => {
+            calls.push("deferred");
+          });
+          try {
+            yield* AsyncResult<number, CustomError>(never());
+            calls.push("after never");
+            return 42;
+          } finally {
+            calls.push("finally");
+          }
+        },
+        { signal: controller.signal }
+      );
+
+      await setTimeout(0);
+      controller.abort();
+
+      assert.ok(
+        (await result.valueOrFallback((it) => it)) instanceof AbortedError
+      );
+      assert.strictEqual(receivedSignal, controller.signal);
+      assert.deepStrictEqual(calls, ["finally", "deferred"]);
+    });
+
+    it("should end a run that's aborted while its generator awaits a plain promise", async () => {
+      const controller = new AbortController();
+      const calls: string[] = [];
+      let release: () => void = () => {};
+
+      const result = AsyncResult.run(
+        async function* () {
+          yield* AsyncResult.defer(() => {
+            calls.push("deferred");
+          });
+          try {
+            await new Promise<void>((resolve) => {
+              release = resolve;
+            });
+            yield* AsyncResult<number, CustomError>(Ok(1));
+            calls.push("after release");
+            return 42;
+          } finally {
+            calls.push("finally");
+          }
+        },
+        { signal: controller.signal }
+      );
+
+      await setTimeout(0);
+      controller.abort();
+
+      assert.ok(
+        (await result.valueOrFallback((it) => it)) instanceof AbortedError
+      );
+      assert.deepStrictEqual(calls, ["deferred"]);
+
+      release();
+      await setTimeout(0);
+      assert.deepStrictEqual(calls, ["deferred", "finally"]);
+    });
+
+    it("should not start the generator if the signal's already aborted", async () => {
+      const body = mock.fn(() => 42);
+
+      const result = await AsyncResult.run(
+        function* () {
+          return body();
+        },
+        { signal: AbortSignal.abort() }
+      ).valueOrFallback((it) => it);
+
+      assert.ok(result instanceof AbortedError);
+      assert.strictEqual(body.mock.callCount(), 0);
+    });
+  });
+
+  describe("AsyncResult.mapConcurrent", () => {
+    // Returns a function that resolves with its argument after `ms`, while
+    // recording the highest number of calls that were in progress at once.
+    const trackConcurrency = () => {
+      let running = 0;
+      const stats = { maxRunning: 0 };
+      const fn = async <T>(value: T, ms: number) => {
+        running++;
+        stats.maxRunning = Math.max(stats.maxRunning, running);
+        await setTimeout(ms);
+        running--;
+        return value;
+      };
+      return { fn, stats };
+    };
+
+    it("should limit concurrency and keep the results in order", async () => {
+      const { fn, stats } = trackConcurrency();
+
+      const result = await AsyncResult.mapConcurrent(
+        [30, 10, 20, 0, 10],
+        (ms, i) => fn(i, ms),
+        { concurrency: 2 }
+      ).valueOrReject();
+
+      assert.deepStrictEqual(result, [0, 1, 2, 3, 4]);
+      assert.strictEqual(stats.maxRunning, 2);
+    });
+
+    it("should pull items lazily", async () => {
+      const pulled: number[] = [];
+      function* items() {
+        for (let i = 0; i < 4; i++) {
+          pulled.push(i);
+          yield i;
+        }
+      }
+
+      const result = AsyncResult.mapConcurrent(
+        items(),
+        async (it) => {
+          await setTimeout(5);
+          return it;
+        },
+        { concurrency: 2 }
+      );
+
+      assert.deepStrictEqual(pulled, [0, 1]);
+      assert.deepStrictEqual(await result.valueOrReject(), [0, 1, 2, 3]);
+    });
+
+    it("should stop starting work after the first Err, and report its index", async () => {
+      const fn = mock.fn(async (it: number) => {
+        await setTimeout(1);
+        return it === 1 ? Err(new CustomError()) : Ok(it);
+      });
+
+      const result: AsyncResult<
+        number[],
+        ItemError<CustomError>
+      > = AsyncResult.mapConcurrent([0, 1, 2, 3, 4], fn, { concurrency: 2 });
+
+      const error = await result.valueOrFallback((it) => it);
+      assert.ok(error instanceof ItemError);
+      assert.strictEqual(error.index, 1);
+      assert.deepStrictEqual(error.cause, new CustomError());
+      assert.ok(fn.mock.callCount() < 5);
+    });
+
+    it("should collect every Err, in order, if stopOnErr is false", async () => {
+      const result: AsyncResult<
+        number[],
+        AggregateError & { errors: ItemError<CustomError>[] }
+      > = AsyncResult.mapConcurrent(
+        [20, 0, 10, 0],
+        async (ms, i) => {
+          await setTimeout(ms);
+          return i % 2 === 0 ? Err(new CustomError(String(i))) : Ok(i);
+        },
+        { concurrency: 4, stopOnErr: false }
+      );
+
+      const error = await result.valueOrFallback((it) => it);
+      assert.ok(error instanceof AggregateError);
+      assert.deepStrictEqual(
+        error.errors.map((it) => [it.index, it.cause.message]),
+        [
+          [0, "0"],
+          [2, "2"],
+        ]
+      );
+    });
+
+    it("should reject if a call rejects or throws", async () => {
+      const hiError = new Error("Hi");
+
+      await assert.rejects(
+        AsyncResult.mapConcurrent(
+          [1, 2],
+          (it) => {
+            if (it === 2) throw hiError;
+            return it;
+          },
+          { concurrency: 1 }
+        ).valueOrReject(),
+        hiError
+      );
+    });
+
+    it("should accept a stopOnErr that's only known at runtime", async () => {
+      const stopOnErr: boolean = Math.random() > 2;
+      const result: AsyncResult<
+        number[],
+        | ItemError<CustomError>
+        | (AggregateError & { errors: ItemError<CustomError>[] })
+      > = AsyncResult.mapConcurrent(
+        [1, 2],
+        (it) => (it === 1 ? Err(new CustomError()) : Ok(it)),
+        { concurrency: 1, stopOnErr }
+      );
+
+      const error = await result.valueOrFallback((it) => it);
+      assert.ok(error instanceof AggregateError);
+      assert.strictEqual(error.errors.length, 1);
+    });
+
+    it("should reject, without calling fn, if concurrency is less than 1", async () => {
+      const fn = mock.fn((it: number) => it);
+
+      await assert.rejects(
+        AsyncResult.mapConcurrent([1], fn, { concurrency: 0 }).valueOrReject(),
+        RangeError
+      );
+      assert.strictEqual(fn.mock.callCount(), 0);
+    });
+  });
+
+  describe("AsyncResult.traverse", () => {
+    it("should run sequentially by default, never calling fn after an Err", async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const fn = mock.fn(async (it: number) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await setTimeout(1);
+        running--;
+        return it === 2 ? Err(new CustomError()) : Ok(it);
+      });
+
+      const result: AsyncResult<
+        number[],
+        ItemError<CustomError>
+      > = AsyncResult.traverse(new Set([1, 2, 3]), fn);
+      const error = await result.valueOrFallback((it) => it);
+
+      assert.ok(error instanceof ItemError);
+      assert.strictEqual(error.index, 1);
+      assert.strictEqual(fn.mock.callCount(), 2);
+      assert.strictEqual(maxRunning, 1);
+    });
+
+    it("should call fn for every item at once in parallel mode", async () => {
+      const fn = mock.fn(async (it: number) => {
+        await setTimeout(10 - it);
+        return it * 2;
+      });
+
+      const result = AsyncResult.traverse([1, 2, 3], fn, { mode: "parallel" });
+
+      assert.strictEqual(fn.mock.callCount(), 3);
+      assert.deepStrictEqual(await result.valueOrReject(), [2, 4, 6]);
+    });
+
+    it("should report the key of the Map entry that failed", async () => {
+      const prices = new Map([
+        ["apple", 1],
+        ["pear", -1],
+      ]);
+      const result: AsyncResult<
+        number[],
+        ItemError<CustomError, string>
+      > = AsyncResult.traverse(prices, async ([, price]) =>
+        price < 0 ? Err(new CustomError()) : Ok(price)
+      );
+      const error = await result.valueOrFallback((it) => it);
+
+      assert.ok(error instanceof ItemError);
+      assert.strictEqual(error.index, 1);
+      assert.strictEqual(error.key, "pear");
+      assert.strictEqual(error.message, "Item 1 (key pear) failed");
+    });
+  });
+
+  describe("AsyncResult.allLimited", () => {
+    it("should call at most `concurrency` thunks at once, like AsyncResult.all", async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const slow =
+        <T>(value: T) =>
+        async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await setTimeout(5);
+          running--;
+          return value;
+        };
+
+      const result: AsyncResult<
+        [number, string, boolean],
+        ItemError<CustomError>
+      > = AsyncResult.allLimited(
+        [slow(1), slow("2"), (): Result<boolean, CustomError> => Ok(true)],
+        2
+      );
+
+      assert.deepStrictEqual(await result.valueOrReject(), [1, "2", true]);
+      assert.strictEqual(maxRunning, 2);
+    });
+  });
+
+  describe("AsyncResult.retry", () => {
+    const fakeClock = () => {
+      const sleeps: number[] = [];
+      let now = 0;
+      const clock: Clock = {
+        now: () => now,
+        sleep: async (ms) => {
+          sleeps.push(ms);
+          now += ms;
+        },
+      };
+      return { clock, sleeps };
+    };
+
+    it("should retry on the schedule until an attempt succeeds", async () => {
+      const { clock, sleeps } = fakeClock();
+      let attempts = 0;
+
+      const result = await AsyncResult.retry(
+        async () => (++attempts < 3 ? Err(new CustomError()) : Ok(attempts)),
+        Schedule.exponential(100).maxAttempts(5),
+        { clock }
+      ).valueOrReject();
+
+      assert.strictEqual(result, 3);
+      assert.deepStrictEqual(sleeps, [100, 200]);
+    });
+
+    it("should give up with a RetryError holding every attempt's error", async () => {
+      const { clock, sleeps } = fakeClock();
+      const errors = [new CustomError("1"), new CustomError("2")];
+      let attempts = 0;
+
+      const result: AsyncResult<never, RetryError<CustomError>> =
+        AsyncResult.retry(
+          () => Err(errors[attempts++]!),
+          Schedule.fixed(10).maxAttempts(2),
+          { clock }
+        );
+
+      const error = await result.valueOrFallback((it) => it);
+      assert.ok(error instanceof RetryError);
+      assert.deepStrictEqual(error.errors, errors);
+      assert.deepStrictEqual(sleeps, [10]);
+    });
+
+    it("should stop retrying once the schedule's max elapsed time is reached", async () => {
+      const { clock, sleeps } = fakeClock();
+
+      const result = await AsyncResult.retry(
+        () => Err(new CustomError()),
+        Schedule.fixed(400).maxElapsed(1000),
+        { clock }
+      ).valueOrFallback((it) => it);
+
+      assert.strictEqual(result.errors.length, 3);
+      assert.deepStrictEqual(sleeps, [400, 400]);
+    });
+
+    it("should only retry errors that the schedule accepts", async () => {
+      const { clock } = fakeClock();
+      const fn = mock.fn(
+        (): Result<never, CustomError | AnotherError> => Err(new AnotherError())
+      );
+
+      const result = await AsyncResult.retry(
+        fn,
+        Schedule.fixed(10)
+          .maxAttempts(5)
+          .whileError((e: CustomError | AnotherError) => e instanceof CustomError),
+        { clock }
+      ).valueOrFallback((it) => it);
+
+      assert.deepStrictEqual(result.errors, [new AnotherError()]);
+      assert.strictEqual(fn.mock.callCount(), 1);
+    });
+
+    it("should only retry rejections when opted in", async () => {
+      const { clock } = fakeClock();
+      const hiError = new Error("Hi");
+      const fn = mock.fn(async (): Promise<never> => {
+        throw hiError;
+      });
+
+      await assert.rejects(
+        AsyncResult.retry(fn, Schedule.fixed(10).maxAttempts(3), {
+          clock,
+        }).valueOrReject(),
+        hiError
+      );
+      assert.strictEqual(fn.mock.callCount(), 1);
+
+      const result: AsyncResult<never, RetryError<unknown>> = AsyncResult.retry(
+        fn,
+        Schedule.fixed(10).maxAttempts(3),
+        { clock, retryRejections: true }
+      );
+
+      assert.deepStrictEqual(
+        (await result.valueOrFallback((it) => it)).errors,
+        [hiError, hiError, hiError]
+      );
+      assert.strictEqual(fn.mock.callCount(), 4);
+    });
+  });
+});
+
+describe("AsyncResult.prototype.thenChain", () => {
+  it("should call a single callback with the value and empty history", async () => {
+    const cb = mock.fn(async (x: number, history: []) => x + 1);
+    const result = AsyncResult(1).thenChain(cb);
+    assert.deepStrictEqual(await result.valueOrReject(), 2);
+    assert.strictEqual(cb.mock.callCount(), 1);
+    assert.deepStrictEqual(cb.mock.calls[0]?.arguments, [1, []]);
+  });
+
+  it("should chain two callbacks, passing correct history", async () => {
+    const cb1 = mock.fn(async (x: number, history: []) => x + 1);
+    const cb2 = mock.fn(async (x: number, history: [number]) => x * 2);
+    const result = AsyncResult(1).thenChain(cb1, cb2);
+    assert.deepStrictEqual(await result.valueOrReject(), 4);
+    assert.strictEqual(cb1.mock.callCount(), 1);
+    assert.strictEqual(cb2.mock.callCount(), 1);
+    assert.deepStrictEqual(cb1.mock.calls[0]?.arguments, [1, []]);
+    assert.deepStrictEqual(cb2.mock.calls[0]?.arguments, [2, [1]]);
+  });
+
+  it("should chain three callbacks, passing correct history", async () => {
+    const cb1 = mock.fn(async (x: number, history: []) => x + 1);
+    const cb2 = mock.fn(async (x: number, history: [number]) => x * 2);
+    const cb3 = mock.fn(async (x: number, history: [number, number]) =>
+      Ok(x - 3)
+    );
+    const result = AsyncResult(1).thenChain(cb1, cb2, cb3);
     assert.deepStrictEqual(await result.valueOrReject(), 1);
     assert.strictEqual(cb1.mock.callCount(), 1);
     assert.strictEqual(cb2.mock.callCount(), 1);
@@ -826,4 +2542,104 @@ describe("AsyncResult.prototype.thenChain", () => {
     await AsyncResult(1).thenChain(cb1, cb2, cb3);
     assert.deepStrictEqual(historySnapshots, [[], [1], [1, 2]]);
   });
+
+  it("should infer the callbacks' types in long chains", async () => {
+    const result: AsyncResult<string, CustomError> = AsyncResult(1).thenChain(
+      (x) => x + 1,
+      async (x) => x + 1,
+      (x) => AsyncResult(String(x)),
+      (x) => (x === "" ? Err(new CustomError()) : Ok(Number(x))),
+      async (x) => x * 2,
+      (x) => x + 1,
+      async (x) => Ok(x + 1),
+      (x) => x + 1,
+      (x) => String(x),
+      (x, history) => `${history[0].toFixed()} -> ${x}`
+    );
+    assert.deepStrictEqual(await result, Ok("1 -> 9"));
+  });
+
+  it("should report a type error at the callback that doesn't fit", () => {
+    const inc = (x: number) => x + 1;
+    const toStr = (x: number) => AsyncResult(String(x));
+
+    function _typeTest() {
+      AsyncResult(1).thenChain(
+        (x) => x + 1,
+        async (x) => x + 1,
+        (x) => x + 1,
+        async (x) => x + 1,
+        (x) => x + 1,
+        async (x) => x + 1,
+        (x) => x + 1,
+        (x) => AsyncResult(String(x)),
+        // @ts-expect-error the callback before this one returns a string.
+        (x) => x.toFixed()
+      );
+      AsyncResult(1).thenChain(
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        // @ts-expect-error the callback after this one takes a number.
+        toStr,
+        inc
+      );
+    }
+  });
+
+  it("should check chains of more than 16 callbacks", async () => {
+    const inc = (x: number) => x + 1;
+    const toStr = (x: number) => AsyncResult(String(x));
+    const toNum = (x: string) =>
+      x === "" ? Err(new CustomError()) : Ok(Number(x));
+
+    const result: AsyncResult<string, CustomError> = AsyncResult(1).thenChain(
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      toStr,
+      toNum,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      (x: number, history: unknown[]) => `${history.length}: ${x}`
+    );
+    assert.deepStrictEqual(await result, Ok("17: 16"));
+
+    function _typeTest() {
+      AsyncResult(1).thenChain(
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        toStr,
+        // @ts-expect-error the callback before this one returns a string.
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc
+      );
+    }
+  });
 });
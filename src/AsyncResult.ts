@@ -1,10 +1,82 @@
-import { Err, Ok, _Result, isResult, type Result } from "./Result.js";
-import type { NonEmptyArray, UnionToIntersection } from "./utils.js";
+import { AbortedError } from "./AbortedError.js";
+import { systemClock, type Clock } from "./Clock.js";
+import {
+  underlyingError,
+  type ContextError,
+  type ExcludeUnderlying,
+  type UnderlyingError,
+} from "./ContextError.js";
+import {
+  Deferred,
+  Err,
+  Ok,
+  Result,
+  _Result,
+  getTagHandler,
+  isResult,
+  settleFinalized,
+  tagOf,
+  toAsyncIterator,
+  type ChainCallbacks,
+  type ChainOkType,
+  type ComposeFns,
+  type FnOptions,
+  type LongChain,
+  type LongChainCallbacks,
+  type LongChainErrType,
+  type LongChainOkType,
+  type LongComposeFns,
+  type LongPipeErrType,
+  type LongPipeOkType,
+  type LongPipeOperators,
+  type NoExtraKeys,
+  type NoStep,
+  type Outcome,
+  type PipeErrType,
+  type PipeOperators,
+  type RunErrType,
+  type TagHandlers,
+  type TagOf,
+  type WithTag,
+} from "./Result.js";
+import { itemError, type ItemError } from "./ItemError.js";
+import { RetryError, type Schedule } from "./Schedule.js";
+import {
+  withName,
+  type NonEmptyArray,
+  type UnionToIntersection,
+} from "./utils.js";
 
 export type AsyncResult<T, E> = _AsyncResult<T, E>;
 
 class _AsyncResult<T, E> {
-  constructor(public readonly resultPromise: Promise<Result<T, E>>) {}
+  /**
+   * If `signal` is given, the AsyncResult is part of an abortable chain: once
+   * the signal aborts, the callbacks given to `then_`/`thenChain` are skipped
+   * and, instead, an `AbortedError` Err is passed down the chain (where error
+   * callbacks, e.g. those given to `catch_` or `finally_`, can still handle
+   * it). A callback that's already running isn't interrupted, but the chain
+   * doesn't wait for it, and it can pass the signal on (e.g., to `fetch`).
+   *
+   * Callbacks aren't given the signal as an argument, as that would break
+   * point-free callbacks like `then_(parseInt)`. Instead, they can read it
+   * from the AsyncResult's `signal` property:
+   *
+   * ```
+   * const user = AsyncResult(id, { signal });
+   * const profile = user.then_((id) => fetchProfile(id, user.signal));
+   * ```
+   *
+   * AsyncResults derived from this one inherit the signal, except those
+   * returned by methods that handle or transform errors (`catch_`, `finally_`,
+   * `mapErr`, `context`, etc.): their error type may no longer include
+   * `AbortedError`, or their callbacks mustn't be cut short, so they're never
+   * aborted.
+   */
+  constructor(
+    public readonly resultPromise: Promise<Result<T, E>>,
+    public readonly signal?: AbortSignal
+  ) {}
 
   /**
    * @see {_Result[Symbol.iterator]}
@@ -13,6 +85,15 @@ class _AsyncResult<T, E> {
     return yield this;
   }
 
+  /**
+   * @see {_Result[Symbol.asyncIterator]}
+   */
+  [Symbol.asyncIterator](): AsyncIterator<AsyncResult<T, E>, T, any> {
+    return toAsyncIterator(
+      this[Symbol.iterator]() as Generator<AsyncResult<T, E>, T, any>
+    );
+  }
+
   async valueOrFallback<U>(
     errCb: (e: E) => U,
     rejectionCb?: (arg: unknown) => U
@@ -27,6 +108,95 @@ class _AsyncResult<T, E> {
     return this.resultPromise.then((result) => result.valueOrThrow());
   }
 
+  /**
+   * @see {_Result.expect}. The returned promise rejects instead of throwing.
+   */
+  async expect(message: string): Promise<T> {
+    return this.resultPromise.then((result) => result.expect(message));
+  }
+
+  /**
+   * @see {_Result.unwrapOr}. If the AsyncResult is rejected, `rejectionCb`'s
+   * return value is used instead; without it, the returned promise rejects.
+   */
+  async unwrapOr<U, V = never>(
+    fallback: U,
+    rejectionCb?: (reason: unknown) => V
+  ): Promise<T | U | V> {
+    return this.resultPromise.then(
+      (result) => result.unwrapOr(fallback),
+      rejectionCb
+    );
+  }
+
+  /**
+   * @see {_Result.unwrapErr}. The returned promise rejects instead of throwing.
+   */
+  async unwrapErr(): Promise<E> {
+    return this.resultPromise.then((result) => result.unwrapErr());
+  }
+
+  /**
+   * @see {_Result.ok}. Rejections are handled like in `unwrapOr`.
+   */
+  async ok<V = never>(
+    rejectionCb?: (reason: unknown) => V
+  ): Promise<T | V | undefined> {
+    return this.resultPromise.then((result) => result.ok(), rejectionCb);
+  }
+
+  /**
+   * @see {_Result.err}. Rejections are handled like in `unwrapOr`.
+   */
+  async err<V = never>(
+    rejectionCb?: (reason: unknown) => V
+  ): Promise<E | V | undefined> {
+    return this.resultPromise.then((result) => result.err(), rejectionCb);
+  }
+
+  /**
+   * @see {_Result.isOkAnd}. Rejections are handled like in `unwrapOr`.
+   */
+  async isOkAnd(
+    predicate: (value: T) => boolean,
+    rejectionCb?: (reason: unknown) => boolean
+  ): Promise<boolean> {
+    return this.resultPromise.then(
+      (result) => result.isOkAnd(predicate),
+      rejectionCb
+    );
+  }
+
+  /**
+   * @see {_Result.isErrAnd}. Rejections are handled like in `unwrapOr`.
+   */
+  async isErrAnd(
+    predicate: (error: E) => boolean,
+    rejectionCb?: (reason: unknown) => boolean
+  ): Promise<boolean> {
+    return this.resultPromise.then(
+      (result) => result.isErrAnd(predicate),
+      rejectionCb
+    );
+  }
+
+  /**
+   * @see {_Result.match}. The returned promise resolves with the return value
+   * of whichever arm is called. If the AsyncResult is rejected, the optional
+   * `rejected` arm is called with the rejection reason; if that arm isn't
+   * given, the returned promise rejects.
+   */
+  async match<U, V, W = never>(arms: {
+    ok: (value: T) => U;
+    err: (error: E) => V;
+    rejected?: (reason: unknown) => W;
+  }): Promise<U | V | W> {
+    return this.resultPromise.then(
+      (result) => result.match(arms),
+      arms.rejected
+    );
+  }
+
   then<V>(
     _onfulfilled?: ((value: Result<T, E>) => V) | null | undefined,
     _onrejected?: ((reason: any) => unknown) | null | undefined
@@ -39,22 +209,30 @@ class _AsyncResult<T, E> {
     errCb?: (arg: E) => ResultPromisable<T2, E2>,
     rejectionCb?: (arg: unknown) => ResultPromisable<T2, E2>
   ): _AsyncResult<T2, E | E2> {
+    const { signal } = this;
     return new _AsyncResult<T2, E | E2>(
-      this.resultPromise.then(
-        (result) =>
-          !result.data.isOk
-            ? typeof errCb === "function"
-              ? toResultPromise(errCb(result.data.value))
-              : (result satisfies Result<T, E> as unknown as Result<T2, E | E2>)
-            : toResultPromise(okCb(result.data.value)),
-        (error) => {
-          if (typeof rejectionCb === "function") {
-            return toResultPromise(rejectionCb(error));
-          } else {
-            throw error;
+      abortable(
+        abortable(this.resultPromise, signal).then(
+          (result) =>
+            !result.data.isOk
+              ? typeof errCb === "function"
+                ? toResultPromise(errCb(result.data.value))
+                : (result satisfies Result<T, E> as unknown as Result<
+                    T2,
+                    E | E2
+                  >)
+              : toResultPromise(okCb(result.data.value)),
+          (error) => {
+            if (typeof rejectionCb === "function") {
+              return toResultPromise(rejectionCb(error));
+            } else {
+              throw error;
+            }
           }
-        }
-      )
+        ),
+        signal
+      ),
+      signal
     );
   }
 
@@ -62,8 +240,10 @@ class _AsyncResult<T, E> {
     errCb: (arg: E) => ResultPromisable<T2, E2>,
     rejectionCb?: (arg: unknown) => ResultPromisable<T2, E2>
   ): _AsyncResult<T | T2, E2> {
+    // NB: the returned AsyncResult doesn't inherit the signal, as `E2` needn't
+    // include `AbortedError`. @see {_AsyncResult.constructor}
     return new _AsyncResult<T | T2, E2>(
-      this.resultPromise.then(
+      abortable(this.resultPromise, this.signal).then(
         (result) =>
           result.data.isOk
             ? (result satisfies Result<T, E> as unknown as Result<T | T2, E2>)
@@ -107,6 +287,119 @@ class _AsyncResult<T, E> {
     }, rejectionCb);
   }
 
+  /**
+   * Like `catchInstanceOf`, but looks through any `ContextError`s wrapping the
+   * error. @see {_Result.catchUnderlyingInstanceOf}
+   */
+  catchUnderlyingInstanceOf<ToCatch extends UnderlyingError<E>, T2, E2 = never>(
+    type: { new (...args: any[]): UnionToIntersection<ToCatch> },
+    errCb: (arg: ToCatch) => ResultPromisable<T2, E2>,
+    rejectionCb?: (arg: unknown) => ResultPromisable<T2, E2>
+  ): AsyncResult<T | T2, ExcludeUnderlying<E, ToCatch> | E2> {
+    return this.catch_<T | T2, E2 | ExcludeUnderlying<E, ToCatch>>((error) => {
+      const underlying = underlyingError(error);
+      return underlying instanceof type
+        ? errCb(underlying as ToCatch)
+        : new _Result<T, ExcludeUnderlying<E, ToCatch>>({
+            isOk: false,
+            value: error as ExcludeUnderlying<E, ToCatch>,
+          });
+    }, rejectionCb);
+  }
+
+  /**
+   * Like `catchInstanceOf`, but matches the error by its tag, rather than its
+   * class. @see {_Result.catchTag}
+   */
+  catchTag<Tag extends TagOf<E>, T2, E2 = never>(
+    tag: Tag,
+    errCb: (arg: WithTag<E, Tag>) => ResultPromisable<T2, E2>,
+    rejectionCb?: (arg: unknown) => ResultPromisable<T2, E2>
+  ): AsyncResult<T | T2, Exclude<E, WithTag<E, Tag>> | E2> {
+    return this.catch_<T | T2, E2 | Exclude<E, WithTag<E, Tag>>>((error) => {
+      return tagOf(error) === tag
+        ? errCb(error as WithTag<E, Tag>)
+        : new _Result<T, Exclude<E, WithTag<E, Tag>>>({
+            isOk: false,
+            value: error as Exclude<E, WithTag<E, Tag>>,
+          });
+    }, rejectionCb);
+  }
+
+  /**
+   * @see {_Result.catchTags}
+   */
+  catchTags<Handlers extends TagHandlers<E, unknown>>(
+    handlers: Handlers & NoExtraKeys<Handlers, TagOf<E>>
+  ): AsyncResult<
+    T | HandlersOkType<Handlers>,
+    Exclude<E, WithTag<E, keyof Handlers>> | HandlersErrType<Handlers>
+  > {
+    return this.catch_((error) => {
+      const handler = getTagHandler(handlers, error);
+      return handler
+        ? handler(error)
+        : new _Result<T, E>({ isOk: false, value: error });
+    }) as AsyncResult<any, any>;
+  }
+
+  /**
+   * @see {_Result.catchTagsExhaustive}
+   */
+  catchTagsExhaustive<Handlers extends Required<TagHandlers<E, unknown>>>(
+    handlers: Handlers & NoExtraKeys<Handlers, TagOf<E>>
+  ): AsyncResult<
+    T | HandlersOkType<Handlers>,
+    Exclude<E, WithTag<E, keyof Handlers>> | HandlersErrType<Handlers>
+  > {
+    return this.catchTags<Handlers>(handlers);
+  }
+
+  /**
+   * @see {_Result.context}. Rejections are left as-is.
+   */
+  context(message: string): AsyncResult<T, ContextError<E>> {
+    return new _AsyncResult(
+      this.resultPromise.then((result) => result.context(message))
+    );
+  }
+
+  /**
+   * Returns an AsyncResult that becomes an Err holding the error returned by
+   * `onTimeout` if this AsyncResult hasn't settled within `ms` milliseconds.
+   * The timer is cleared as soon as either one settles, so it won't keep the
+   * process alive.
+   *
+   * NB: this doesn't stop the underlying work; it just stops waiting for it.
+   */
+  timeout<E2 extends Error>(
+    ms: number,
+    onTimeout: () => E2
+  ): AsyncResult<T, E | E2> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<Result<never, E2>>((resolve, reject) => {
+      timer = setTimeout(() => {
+        // NB: if onTimeout throws, reject the returned AsyncResult rather
+        // than letting the error escape the timer callback uncaught.
+        try {
+          resolve(Err(onTimeout()));
+        } catch (e) {
+          reject(e);
+        }
+      }, ms);
+    });
+
+    return new _AsyncResult<T, E | E2>(
+      abortable<T, E | E2>(
+        Promise.race([this.resultPromise, timedOut]).finally(() => {
+          clearTimeout(timer);
+        }),
+        this.signal
+      ),
+      this.signal
+    );
+  }
+
   /**
    * Follows Promise.prototype.finally(), in that the callback is called
    * regardless of whether the Result is an Ok or an Err; but, the returned
@@ -116,108 +409,203 @@ class _AsyncResult<T, E> {
   finally_<E2 = never>(
     cb: () => void | ResultPromisable<never, E2>
   ): AsyncResult<T, E | E2> {
-    const fn = async () => {
+    const settle = async (outcome: () => Result<T, E>) => {
       const newResult = await toResultPromise<unknown, E2>(cb());
       return !newResult.data.isOk
         ? (newResult satisfies Result<unknown, E2> as Result<never, E2>)
-        : Promise.resolve(this.resultPromise);
+        : outcome();
     };
-    return this.then_<T, E | E2>(fn, fn, fn);
+    // NB: the returned AsyncResult doesn't inherit the signal, so that an
+    // abort can't cut the callback short. @see {_AsyncResult.constructor}
+    return new _AsyncResult<T, E | E2>(
+      abortable(this.resultPromise, this.signal).then(
+        (result) => settle(() => result),
+        (reason) =>
+          settle(() => {
+            throw reason;
+          })
+      )
+    );
   }
 
   /**
-   * Like Result.thenChain, but for AsyncResult. Chains together a sequence of async or sync callbacks, passing the history and short-circuiting on the first Err.
+   * @see {_Result.map}. If `fn` returns a promise, the promise becomes the Ok
+   * value; it's not awaited. (Use `flatMap` for async work.)
    */
-  thenChain<T2, E2 = never>(
-    cb1: (arg: T, history: []) => ResultPromisable<T2, E2>
-  ): AsyncResult<T2, E | E2>;
-  thenChain<T2, T3, E2 = never, E3 = never>(
-    cb1: (arg: T, history: []) => ResultPromisable<T2, E2>,
-    cb2: (arg: T2, history: [T]) => ResultPromisable<T3, E3>
-  ): AsyncResult<T3, E | E2 | E3>;
-  thenChain<T2, T3, T4, E2 = never, E3 = never, E4 = never>(
-    cb1: (arg: T, history: []) => ResultPromisable<T2, E2>,
-    cb2: (arg: T2, history: [T]) => ResultPromisable<T3, E3>,
-    cb3: (arg: T3, history: [T, T2]) => ResultPromisable<T4, E4>
-  ): AsyncResult<T4, E | E2 | E3 | E4>;
-  thenChain<T2, T3, T4, T5, E2 = never, E3 = never, E4 = never, E5 = never>(
-    cb1: (arg: T, history: []) => ResultPromisable<T2, E2>,
-    cb2: (arg: T2, history: [T]) => ResultPromisable<T3, E3>,
-    cb3: (arg: T3, history: [T, T2]) => ResultPromisable<T4, E4>,
-    cb4: (arg: T4, history: [T, T2, T3]) => ResultPromisable<T5, E5>
-  ): AsyncResult<T5, E | E2 | E3 | E4 | E5>;
-  thenChain<
-    T2,
-    T3,
-    T4,
-    T5,
-    T6,
-    E2 = never,
-    E3 = never,
-    E4 = never,
-    E5 = never,
-    E6 = never
-  >(
-    cb1: (arg: T, history: []) => ResultPromisable<T2, E2>,
-    cb2: (arg: T2, history: [T]) => ResultPromisable<T3, E3>,
-    cb3: (arg: T3, history: [T, T2]) => ResultPromisable<T4, E4>,
-    cb4: (arg: T4, history: [T, T2, T3]) => ResultPromisable<T5, E5>,
-    cb5: (arg: T5, history: [T, T2, T3, T4]) => ResultPromisable<T6, E6>
-  ): AsyncResult<T6, E | E2 | E3 | E4 | E5 | E6>;
-  thenChain<
-    T2,
-    T3,
-    T4,
-    T5,
-    T6,
-    T7,
-    E2 = never,
-    E3 = never,
-    E4 = never,
-    E5 = never,
-    E6 = never,
-    E7 = never
-  >(
-    cb1: (arg: T, history: []) => ResultPromisable<T2, E2>,
-    cb2: (arg: T2, history: [T]) => ResultPromisable<T3, E3>,
-    cb3: (arg: T3, history: [T, T2]) => ResultPromisable<T4, E4>,
-    cb4: (arg: T4, history: [T, T2, T3]) => ResultPromisable<T5, E5>,
-    cb5: (arg: T5, history: [T, T2, T3, T4]) => ResultPromisable<T6, E6>,
-    cb6: (arg: T6, history: [T, T2, T3, T4, T5]) => ResultPromisable<T7, E7>
-  ): AsyncResult<T7, E | E2 | E3 | E4 | E5 | E6 | E7>;
-  thenChain<
-    T2,
-    T3,
-    T4,
-    T5,
-    T6,
-    T7,
-    T8,
+  map<U>(fn: (value: T) => U): AsyncResult<U, E> {
+    return this.then_((value) => Ok(fn(value)));
+  }
+
+  /**
+   * @see {_Result.mapErr}. Rejections are left as-is.
+   */
+  mapErr<E2>(fn: (error: E) => E2): AsyncResult<T, E2> {
+    return this.catch_(
+      (error) => new _Result<never, E2>({ isOk: false, value: fn(error) })
+    );
+  }
+
+  /**
+   * @see {_Result.flatMap}. `fn` can return a Result, an AsyncResult, or a
+   * promise for a Result.
+   */
+  flatMap<T2, E2>(
+    fn: (value: T) => ResultLike<T2, E2>
+  ): AsyncResult<T2, E | E2> {
+    return this.then_(fn);
+  }
+
+  /**
+   * @see {_Result.orElse}. Like `flatMap`, `fn` can return a Result, an
+   * AsyncResult, or a promise for a Result. Rejections are left as-is.
+   */
+  orElse<T2, E2>(
+    fn: (error: E) => ResultLike<T2, E2>
+  ): AsyncResult<T | T2, E2> {
+    return this.catch_(fn);
+  }
+
+  /**
+   * @see {_Result.tap}. If `fn` returns a promise, it's not awaited.
+   */
+  tap(fn: (value: T) => void): AsyncResult<T, E> {
+    return this.then_((value) => {
+      fn(value);
+      return Ok(value);
+    });
+  }
+
+  /**
+   * @see {_Result.tapErr}. If `fn` returns a promise, it's not awaited.
+   */
+  tapErr(fn: (error: E) => void): AsyncResult<T, E> {
+    const tapped = this.catch_((error) => {
+      fn(error);
+      return new _Result<never, E>({ isOk: false, value: error });
+    });
+    return new _AsyncResult(
+      abortable(tapped.resultPromise, this.signal),
+      this.signal
+    );
+  }
+
+  /**
+   * @see {_Result.flatten}. The inner result can also be an AsyncResult.
+   */
+  flatten<T2, E2>(
+    this: AsyncResult<Result<T2, E2> | AsyncResult<T2, E2>, E>
+  ): AsyncResult<T2, E | E2> {
+    return this.flatMap((it) => it);
+  }
+
+  /**
+   * @see {_Result.zip}. The two results are awaited concurrently.
+   */
+  zip<T2, E2>(
+    other: Result<T2, E2> | AsyncResult<T2, E2>
+  ): AsyncResult<[T, T2], E | E2> {
+    return new _AsyncResult(
+      abortable(
+        Promise.all([this.resultPromise, toResultPromise(other)]).then(
+          ([result, otherResult]) => result.zip(otherResult)
+        ),
+        this.signal
+      ),
+      this.signal
+    );
+  }
+
+  /**
+   * @see {_Result.zipWith}
+   */
+  zipWith<T2, E2, U>(
+    other: Result<T2, E2> | AsyncResult<T2, E2>,
+    fn: (value: T, otherValue: T2) => U
+  ): AsyncResult<U, E | E2> {
+    return this.zip(other).map(([value, otherValue]) => fn(value, otherValue));
+  }
+
+  /**
+   * @see {_Result.pipe}
+   */
+  pipe<
+    T2 = NoStep,
+    T3 = NoStep,
+    T4 = NoStep,
+    T5 = NoStep,
+    T6 = NoStep,
+    T7 = NoStep,
+    T8 = NoStep,
+    T9 = NoStep,
+    T10 = NoStep,
+    T11 = NoStep,
+    T12 = NoStep,
+    T13 = NoStep,
+    T14 = NoStep,
+    T15 = NoStep,
+    T16 = NoStep,
+    T17 = NoStep,
     E2 = never,
     E3 = never,
     E4 = never,
     E5 = never,
     E6 = never,
     E7 = never,
-    E8 = never
+    E8 = never,
+    E9 = never,
+    E10 = never,
+    E11 = never,
+    E12 = never,
+    E13 = never,
+    E14 = never,
+    E15 = never,
+    E16 = never,
+    E17 = never
   >(
-    cb1: (arg: T, history: []) => ResultPromisable<T2, E2>,
-    cb2: (arg: T2, history: [T]) => ResultPromisable<T3, E3>,
-    cb3: (arg: T3, history: [T, T2]) => ResultPromisable<T4, E4>,
-    cb4: (arg: T4, history: [T, T2, T3]) => ResultPromisable<T5, E5>,
-    cb5: (arg: T5, history: [T, T2, T3, T4]) => ResultPromisable<T6, E6>,
-    cb6: (arg: T6, history: [T, T2, T3, T4, T5]) => ResultPromisable<T7, E7>,
-    cb7: (arg: T7, history: [T, T2, T3, T4, T5, T6]) => ResultPromisable<T8, E8>
-  ): AsyncResult<T8, E | E2 | E3 | E4 | E5 | E6 | E7 | E8>;
+    ...ops: PipeOperators<
+      T,
+      E,
+      [T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13, T14, T15, T16, T17],
+      [E2, E3, E4, E5, E6, E7, E8, E9, E10, E11, E12, E13, E14, E15, E16, E17]
+    >
+  ): AsyncResult<
+    ChainOkType<
+      T,
+      [T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13, T14, T15, T16, T17]
+    >,
+    PipeErrType<
+      E,
+      [T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13, T14, T15, T16, T17],
+      [E2, E3, E4, E5, E6, E7, E8, E9, E10, E11, E12, E13, E14, E15, E16, E17]
+    >
+  >;
+  pipe<Ops extends LongChain>(
+    ...ops: LongPipeOperators<T, E, Ops>
+  ): AsyncResult<LongPipeOkType<Ops>, LongPipeErrType<Ops>>;
+  pipe(...ops: ((result: any) => any)[]): AsyncResult<any, any> {
+    return ops.reduce((result, op) => op(result), this);
+  }
+
+  /**
+   * Like Result.thenChain, but for AsyncResult. Chains together a sequence of async or sync callbacks, passing the history and short-circuiting on the first Err.
+   */
   thenChain<
-    T2,
-    T3,
-    T4,
-    T5,
-    T6,
-    T7,
-    T8,
-    T9,
+    T2 = NoStep,
+    T3 = NoStep,
+    T4 = NoStep,
+    T5 = NoStep,
+    T6 = NoStep,
+    T7 = NoStep,
+    T8 = NoStep,
+    T9 = NoStep,
+    T10 = NoStep,
+    T11 = NoStep,
+    T12 = NoStep,
+    T13 = NoStep,
+    T14 = NoStep,
+    T15 = NoStep,
+    T16 = NoStep,
+    T17 = NoStep,
     E2 = never,
     E3 = never,
     E4 = never,
@@ -225,23 +613,48 @@ class _AsyncResult<T, E> {
     E6 = never,
     E7 = never,
     E8 = never,
-    E9 = never
+    E9 = never,
+    E10 = never,
+    E11 = never,
+    E12 = never,
+    E13 = never,
+    E14 = never,
+    E15 = never,
+    E16 = never,
+    E17 = never
   >(
-    cb1: (arg: T, history: []) => ResultPromisable<T2, E2>,
-    cb2: (arg: T2, history: [T]) => ResultPromisable<T3, E3>,
-    cb3: (arg: T3, history: [T, T2]) => ResultPromisable<T4, E4>,
-    cb4: (arg: T4, history: [T, T2, T3]) => ResultPromisable<T5, E5>,
-    cb5: (arg: T5, history: [T, T2, T3, T4]) => ResultPromisable<T6, E6>,
-    cb6: (arg: T6, history: [T, T2, T3, T4, T5]) => ResultPromisable<T7, E7>,
-    cb7: (
-      arg: T7,
-      history: [T, T2, T3, T4, T5, T6]
-    ) => ResultPromisable<T8, E8>,
-    cb8: (
-      arg: T8,
-      history: [T, T2, T3, T4, T5, T6, T7]
-    ) => ResultPromisable<T9, E9>
-  ): AsyncResult<T9, E | E2 | E3 | E4 | E5 | E6 | E7 | E8 | E9>;
+    ...cbs: ChainCallbacks<
+      T,
+      [T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13, T14, T15, T16, T17],
+      [E2, E3, E4, E5, E6, E7, E8, E9, E10, E11, E12, E13, E14, E15, E16, E17],
+      true
+    >
+  ): AsyncResult<
+    ChainOkType<
+      T,
+      [T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13, T14, T15, T16, T17]
+    >,
+    | E
+    | E2
+    | E3
+    | E4
+    | E5
+    | E6
+    | E7
+    | E8
+    | E9
+    | E10
+    | E11
+    | E12
+    | E13
+    | E14
+    | E15
+    | E16
+    | E17
+  >;
+  thenChain<Cbs extends LongChain>(
+    ...cbs: LongChainCallbacks<T, Cbs, true>
+  ): AsyncResult<LongChainOkType<Cbs, true>, E | LongChainErrType<Cbs, true>>;
   thenChain(
     ...cbs: ((arg: any, history: any) => ResultPromisable<any, any>)[]
   ): AsyncResult<any, any> {
@@ -256,10 +669,24 @@ class _AsyncResult<T, E> {
   }
 }
 
+/**
+ * Creates an AsyncResult from a Result, AsyncResult, promise, or plain value.
+ * If a signal is given, the AsyncResult (and most derived from it) becomes an
+ * `AbortedError` Err once the signal aborts. @see {_AsyncResult.constructor}
+ */
 export function AsyncResult<T, E = never>(
   arg: ResultPromisable<T, E>
-): _AsyncResult<T, E> {
-  return new _AsyncResult(toResultPromise(arg));
+): _AsyncResult<T, E>;
+export function AsyncResult<T, E = never>(
+  arg: ResultPromisable<T, E>,
+  options: AbortOptions | undefined
+): _AsyncResult<T, E | AbortedError>;
+export function AsyncResult<T, E = never>(
+  arg: ResultPromisable<T, E>,
+  options?: AbortOptions
+): _AsyncResult<T, E | AbortedError> {
+  const signal = options?.signal;
+  return new _AsyncResult(abortable(toResultPromise(arg), signal), signal);
 }
 
 // NB: allowing arg to be a function is potentially misleading -- the caller
@@ -268,21 +695,121 @@ export function AsyncResult<T, E = never>(
 // of an async function, which is pretty common. I've decided that potential for
 // confusion is worth the convenience, and it's mitigated by making this a
 // dedicated method (that we can give a good name and docs to), rather than
-// abusing the main `AsyncResult` "constructor".
-AsyncResult.fromFunc = <T, E = never>(arg: () => ResultPromisable<T, E>) =>
-  AsyncResult(arg());
+// abusing the main `AsyncResult` "constructor". For a computation that
+// genuinely is lazy, use a `Task`.
+//
+// A synchronous throw from `arg` is treated just like a rejection of the
+// promise it would've returned, so it can't escape as a plain exception.
+//
+// If a signal is given, `arg` is called with it (unless it's already aborted,
+// in which case `arg` isn't called at all).
+function fromFunc<T, E = never>(
+  arg: () => ResultPromisable<T, E>
+): AsyncResult<T, E>;
+function fromFunc<T, E = never>(
+  arg: (signal: AbortSignal) => ResultPromisable<T, E>,
+  options: AbortOptions
+): AsyncResult<T, E | AbortedError>;
+function fromFunc<T, E = never, E2 extends Error = never>(
+  arg: () => ResultPromisable<T, E>,
+  mapRejection: (reason: unknown) => E2
+): AsyncResult<T, E | E2>;
+function fromFunc<T, E = never, E2 extends Error = never>(
+  arg: (signal: AbortSignal) => ResultPromisable<T, E>,
+  mapRejection: (reason: unknown) => E2,
+  options: AbortOptions
+): AsyncResult<T, E | E2 | AbortedError>;
+function fromFunc<T, E = never, E2 extends Error = never>(
+  arg: (signal: AbortSignal) => ResultPromisable<T, E>,
+  mapRejectionOrOptions?: ((reason: unknown) => E2) | AbortOptions,
+  maybeOptions?: AbortOptions
+): AsyncResult<T, E | E2 | AbortedError> {
+  const [mapRejection, options] =
+    typeof mapRejectionOrOptions === "function"
+      ? [mapRejectionOrOptions, maybeOptions]
+      : [undefined, mapRejectionOrOptions];
+
+  const signal = options?.signal;
+  const promise = signal?.aborted
+    ? Promise.resolve(Err(new AbortedError(signal.reason)))
+    : new Promise<Result<T, E>>((resolve) =>
+        resolve(
+          toResultPromise(
+            signal ? arg(signal) : (arg as () => ResultPromisable<T, E>)()
+          )
+        )
+      );
+
+  return mapRejection
+    ? AsyncResult.fromPromise<T, E | AbortedError, E2>(
+        promise,
+        mapRejection,
+        options
+      )
+    : AsyncResult<T, E | AbortedError>(promise, options);
+}
+
+AsyncResult.fromFunc = fromFunc;
+
+/**
+ * Like `AsyncResult()`, except that, if the promise rejects, the rejection
+ * reason is passed through `mapRejection` to produce a (typed) Err, rather
+ * than leaving the AsyncResult in an untyped, rejected state.
+ *
+ * This is the intended way to wrap promises returned by third-party code.
+ */
+function fromPromise<T, E = never, E2 extends Error = never>(
+  promise: ResultPromisable<T, E>,
+  mapRejection: (reason: unknown) => E2
+): AsyncResult<T, E | E2>;
+function fromPromise<T, E = never, E2 extends Error = never>(
+  promise: ResultPromisable<T, E>,
+  mapRejection: (reason: unknown) => E2,
+  options: AbortOptions | undefined
+): AsyncResult<T, E | E2 | AbortedError>;
+function fromPromise<T, E = never, E2 extends Error = never>(
+  promise: ResultPromisable<T, E>,
+  mapRejection: (reason: unknown) => E2,
+  options?: AbortOptions
+): AsyncResult<T, E | E2 | AbortedError> {
+  return AsyncResult<T, E | E2>(
+    toResultPromise<T, E | E2>(promise).catch((reason) =>
+      Err(mapRejection(reason))
+    ),
+    options
+  );
+}
+
+AsyncResult.fromPromise = fromPromise;
 
-type AsyncOkType<T> = T extends AsyncResult<infer U, any> ? U : never;
-type AsyncErrType<T> = T extends AsyncResult<any, infer E> ? E : never;
+export type AsyncOkType<T> = T extends AsyncResult<infer U, any> ? U : never;
+export type AsyncErrType<T> = T extends AsyncResult<any, infer E> ? E : never;
 
-type AsyncOkTypes<T extends AsyncResult<any, any>[]> = {
+export type AsyncOkTypes<T extends AsyncResult<any, any>[]> = {
   [K in keyof T]: AsyncOkType<T[K]>;
 };
 
-type AsyncErrTypes<T extends AsyncResult<any, any>[]> = {
+export type AsyncErrTypes<T extends AsyncResult<any, any>[]> = {
   [key in keyof T]: AsyncErrType<T[key]>;
 };
 
+// NB: `Awaited` unwraps AsyncResults (which are thenable) to Results, so we
+// only have to handle Results after awaiting.
+type PromisableOkType<R> = R extends Result<infer U, any> ? U : R;
+type PromisableErrType<R> = R extends Result<any, infer E> ? E : never;
+
+type HandlersOkType<Handlers> = {
+  [K in keyof Handlers]: Handlers[K] extends (arg: any) => infer R
+    ? PromisableOkType<Awaited<R>>
+    : never;
+}[keyof Handlers];
+
+type HandlersErrType<Handlers> = {
+  [K in keyof Handlers]: Handlers[K] extends (arg: any) => infer R
+    ? PromisableErrType<Awaited<R>>
+    : never;
+}[keyof Handlers];
+
 type AsyncResultTypes<T extends AsyncResult<any, any>[]> = {
   [key in keyof T]: T[key] extends AsyncResult<infer T, infer E>
     ? Result<T, E>
@@ -315,6 +842,68 @@ AsyncResult.all = <T extends [] | AsyncResult<any, any>[]>(
   );
 };
 
+/**
+ * Like `AsyncResult.all`, but takes (and produces) an object of AsyncResults,
+ * rather than an array, so that each value is identified by its key.
+ */
+AsyncResult.allObject = <T extends Record<string, AsyncResult<any, any>>>(
+  asyncResults: T
+): AsyncResult<
+  { [K in keyof T]: AsyncOkType<T[K]> },
+  AsyncErrType<T[keyof T]>
+> => {
+  const keys = Object.keys(asyncResults);
+  return AsyncResult.all(Object.values(asyncResults)).then_(
+    (values) =>
+      Object.fromEntries(keys.map((key, i) => [key, values[i]])) as {
+        [K in keyof T]: AsyncOkType<T[K]>;
+      }
+  );
+};
+
+/**
+ * Like `AsyncResult.allSettled`, but takes (and produces) an object of
+ * AsyncResults, rather than an array.
+ */
+AsyncResult.allSettledObject = <
+  T extends Record<string, AsyncResult<any, any>>
+>(
+  asyncResults: T
+): AsyncResult<
+  {
+    [K in keyof T]:
+      | { type: "ok"; value: AsyncOkType<T[K]> }
+      | { type: "err"; value: AsyncErrType<T[K]> }
+      | { type: "rejection"; value: unknown };
+  },
+  never
+> => {
+  const keys = Object.keys(asyncResults);
+  return AsyncResult.allSettled(Object.values(asyncResults)).then_(
+    (outcomes) =>
+      Object.fromEntries(keys.map((key, i) => [key, outcomes[i]])) as any
+  );
+};
+
+/**
+ * Like `AsyncResult.all`, but, rather than stopping at the first Err, waits
+ * for all of the AsyncResults and returns every error (in order) if any of
+ * them are Errs. @see {Result.allErrors}
+ */
+AsyncResult.allErrors = <T extends [] | AsyncResult<any, any>[]>(
+  asyncResults: T
+): AsyncResult<AsyncOkTypes<T>, NonEmptyArray<AsyncErrTypes<T>[number]>> => {
+  return AsyncResult(
+    Promise.all(asyncResults.map((it) => it.resultPromise)).then(
+      (results) =>
+        Result.allErrors(results) as Result<
+          AsyncOkTypes<T>,
+          NonEmptyArray<AsyncErrTypes<T>[number]>
+        >
+    )
+  );
+};
+
 AsyncResult.allSettled = <T extends [] | AsyncResult<any, any>[]>(
   asyncResults: T
 ): AsyncResult<
@@ -351,6 +940,304 @@ AsyncResult.race = <T extends [] | AsyncResult<any, any>[]>(
   );
 };
 
+/**
+ * Like `Result.any`, but for AsyncResults: resolves with the first AsyncResult
+ * to become an Ok or, if they all become Errs, with an AggregateError holding
+ * their errors (in the order of the given AsyncResults). If any of the
+ * AsyncResults rejects before an Ok is found, the returned AsyncResult rejects.
+ */
+AsyncResult.any = <T extends [] | AsyncResult<any, any>[]>(
+  asyncResults: T
+): AsyncResult<
+  AsyncOkTypes<T>[number],
+  AggregateError & { errors: AsyncErrTypes<T>[number][] }
+> => {
+  return AsyncResult<any, any>(
+    firstOk(
+      asyncResults.map((it) => it.resultPromise),
+      false
+    )
+  );
+};
+
+type RaceOkOptions = {
+  /**
+   * Whether a rejection should count as just another failed attempt (with the
+   * rejection reason included in the AggregateError's `errors`), rather than
+   * rejecting the race. Defaults to false.
+   */
+  rejectionsAsErrs?: boolean;
+};
+
+/**
+ * Calls every function at once (e.g., to request the same thing from several
+ * mirrors), and resolves with the first Ok. Each function is handed an
+ * AbortSignal, which is aborted once the race is decided, so that the losers
+ * can stop their work. If every attempt fails, resolves with an AggregateError
+ * holding their errors (in the order of the given functions).
+ */
+function raceOk<
+  T extends [] | ((signal: AbortSignal) => ResultPromisable<any, any>)[]
+>(
+  fns: T,
+  options?: RaceOkOptions & { rejectionsAsErrs?: false }
+): AsyncResult<
+  ThunkResults<T>[number],
+  AggregateError & { errors: ThunkErrTypes<T>[number][] }
+>;
+function raceOk<
+  T extends [] | ((signal: AbortSignal) => ResultPromisable<any, any>)[]
+>(
+  fns: T,
+  options: RaceOkOptions & { rejectionsAsErrs: true }
+): AsyncResult<ThunkResults<T>[number], AggregateError>;
+function raceOk(
+  fns: ((signal: AbortSignal) => ResultPromisable<any, any>)[],
+  options: RaceOkOptions = {}
+): AsyncResult<any, AggregateError> {
+  const controller = new AbortController();
+  const promise = firstOk(
+    fns.map(
+      (fn) => AsyncResult.fromFunc(() => fn(controller.signal)).resultPromise
+    ),
+    options.rejectionsAsErrs ?? false
+  );
+
+  return AsyncResult(
+    promise.finally(() => {
+      controller.abort();
+    })
+  );
+}
+
+AsyncResult.raceOk = raceOk;
+
+/**
+ * Resolves with the first of the results to be an Ok or, if none are, with an
+ * Err holding an AggregateError of all the errors.
+ */
+function firstOk(
+  resultPromises: Promise<Result<unknown, unknown>>[],
+  rejectionsAsErrs: boolean
+): Promise<Result<unknown, AggregateError>> {
+  return new Promise((resolve, reject) => {
+    const errors: unknown[] = [];
+    let remaining = resultPromises.length;
+
+    const recordErr = (index: number, error: unknown) => {
+      errors[index] = error;
+      if (--remaining === 0) {
+        resolve(Err(new AggregateError(errors)));
+      }
+    };
+
+    if (remaining === 0) {
+      resolve(Err(new AggregateError([])));
+    }
+
+    resultPromises.forEach((promise, index) => {
+      promise.then(
+        (result) =>
+          result.data.isOk
+            ? resolve(Ok(result.data.value))
+            : recordErr(index, result.data.value),
+        (reason) =>
+          rejectionsAsErrs ? recordErr(index, reason) : reject(reason)
+      );
+    });
+  });
+}
+
+type MapConcurrentOptions = {
+  /** The maximum number of calls to `fn` that can be in progress at once. */
+  concurrency: number;
+
+  /**
+   * Whether to stop starting new work once an item produces an Err. Defaults
+   * to true, in which case the returned AsyncResult becomes that Err as soon
+   * as it happens. If false, every item is processed, and the Errs are
+   * collected into an AggregateError.
+   */
+  stopOnErr?: boolean;
+};
+
+/**
+ * Calls `fn` with each item (and its index), without letting more than
+ * `concurrency` calls be in progress at once. Items are only pulled from the
+ * iterable when there's capacity to process them, so it can be lazy.
+ *
+ * Resolves with the results, in the order of the items. Each Err is wrapped in
+ * an `ItemError`, which records the index of the item that produced it (and,
+ * if the items are a Map's entries, the entry's key). If a call rejects (or
+ * throws), the returned AsyncResult rejects, and no new work is started. It
+ * also rejects, without calling `fn`, if `concurrency` isn't at least 1.
+ */
+function mapConcurrent<Item, T, E = never>(
+  items: Iterable<Item>,
+  fn: (item: Item, index: number) => ResultPromisable<T, E>,
+  options: MapConcurrentOptions & { stopOnErr?: true }
+): AsyncResult<T[], ItemError<E>>;
+function mapConcurrent<Item, T, E = never>(
+  items: Iterable<Item>,
+  fn: (item: Item, index: number) => ResultPromisable<T, E>,
+  options: MapConcurrentOptions & { stopOnErr: false }
+): AsyncResult<T[], AggregateError & { errors: ItemError<E>[] }>;
+function mapConcurrent<Item, T, E = never>(
+  items: Iterable<Item>,
+  fn: (item: Item, index: number) => ResultPromisable<T, E>,
+  options: MapConcurrentOptions
+): AsyncResult<
+  T[],
+  ItemError<E> | (AggregateError & { errors: ItemError<E>[] })
+>;
+function mapConcurrent<Item, T, E = never>(
+  items: Iterable<Item>,
+  fn: (item: Item, index: number) => ResultPromisable<T, E>,
+  options: MapConcurrentOptions
+): AsyncResult<T[], ItemError<E> | AggregateError> {
+  const { concurrency, stopOnErr = true } = options;
+  if (!(concurrency >= 1)) {
+    return AsyncResult(
+      Promise.reject(new RangeError("concurrency must be at least 1"))
+    );
+  }
+
+  return AsyncResult(
+    new Promise<Result<T[], ItemError<E> | AggregateError>>(
+      (resolve, reject) => {
+        const iterator = items[Symbol.iterator]();
+        const values: T[] = [];
+        const errors: ItemError<E>[] = [];
+        let nextIndex = 0;
+        let running = 0;
+        let stopped = false;
+        let exhausted = false;
+
+        const settle = (result: Result<T[], ItemError<E> | AggregateError>) => {
+          stopped = true;
+          resolve(result);
+        };
+
+        const launch = () => {
+          while (!stopped && !exhausted && running < concurrency) {
+            const next = iterator.next();
+            if (next.done) {
+              exhausted = true;
+              break;
+            }
+
+            const index = nextIndex++;
+            running++;
+            AsyncResult.fromFunc(() =>
+              fn(next.value, index)
+            ).resultPromise.then(
+              (result) => {
+                running--;
+                if (result.data.isOk) {
+                  values[index] = result.data.value;
+                } else {
+                  errors.push(
+                    itemError(items, index, next.value, result.data.value)
+                  );
+                  if (stopOnErr) {
+                    return settle(Err(errors[0]!));
+                  }
+                }
+                launchOrSettle();
+              },
+              (reason) => {
+                stopped = true;
+                reject(reason);
+              }
+            );
+          }
+        };
+
+        const launchOrSettle = () => {
+          try {
+            launch();
+          } catch (e) {
+            stopped = true;
+            return reject(e);
+          }
+
+          if (!stopped && exhausted && running === 0) {
+            settle(
+              errors.length
+                ? Err(
+                    new AggregateError(
+                      errors.sort((a, b) => a.index - b.index),
+                      `${errors.length} of ${nextIndex} items failed`
+                    )
+                  )
+                : Ok(values)
+            );
+          }
+        };
+
+        launchOrSettle();
+      }
+    )
+  );
+}
+
+AsyncResult.mapConcurrent = mapConcurrent;
+
+type TraverseOptions = { mode?: "sequential" | "parallel" };
+
+/**
+ * Like `Result.traverse`, but `fn` can be async. In "sequential" mode (the
+ * default), each call waits for the previous one, and `fn` is never called
+ * for the items after the first Err. In "parallel" mode, `fn` is called for
+ * every item at once. @see {mapConcurrent}
+ */
+function traverse<K, V, T, E = never>(
+  items: Map<K, V>,
+  fn: (entry: [K, V], index: number) => ResultPromisable<T, E>,
+  options?: TraverseOptions
+): AsyncResult<T[], ItemError<E, K>>;
+function traverse<Item, T, E = never>(
+  items: Iterable<Item>,
+  fn: (item: Item, index: number) => ResultPromisable<T, E>,
+  options?: TraverseOptions
+): AsyncResult<T[], ItemError<E>>;
+function traverse<Item, T, E = never>(
+  items: Iterable<Item>,
+  fn: (item: Item, index: number) => ResultPromisable<T, E>,
+  options: TraverseOptions = {}
+): AsyncResult<T[], ItemError<E>> {
+  return mapConcurrent(items, fn, {
+    concurrency: options.mode === "parallel" ? Infinity : 1,
+  });
+}
+
+AsyncResult.traverse = traverse;
+
+type ThunkResults<
+  T extends ((...args: any[]) => ResultPromisable<any, any>)[]
+> = {
+  [K in keyof T]: PromisableOkType<Awaited<ReturnType<T[K]>>>;
+};
+
+type ThunkErrTypes<
+  T extends ((...args: any[]) => ResultPromisable<any, any>)[]
+> = {
+  [K in keyof T]: PromisableErrType<Awaited<ReturnType<T[K]>>>;
+};
+
+/**
+ * Like `AsyncResult.all`, but takes functions that start the work, and calls
+ * at most `concurrency` of them at a time. @see {mapConcurrent}
+ */
+AsyncResult.allLimited = <T extends [] | (() => ResultPromisable<any, any>)[]>(
+  thunks: T,
+  concurrency: number
+): AsyncResult<ThunkResults<T>, ItemError<ThunkErrTypes<T>[number]>> => {
+  return mapConcurrent(thunks, (thunk) => thunk(), {
+    concurrency,
+  }) as AsyncResult<any, any>;
+};
+
 /**
  * Simplifies working with a chain of AsyncResults, by hiding the unwrapping at
  * each step while the AsyncResult is an Ok, and short-circuiting the
@@ -378,137 +1265,369 @@ AsyncResult.race = <T extends [] | AsyncResult<any, any>[]>(
  * NB: for obscure reasons, you must use `yield*` instead of `yield`
  * throughout the generator.
  *
+ * The generator can also be an async generator, in which case you can `await`
+ * plain promises, or use `for await`, in its body. `yield*` works the same
+ * way in both kinds of generators.
+ *
+ * If a signal is given, it's passed to the generator function, and each
+ * `yield*` becomes a point where the run can be aborted: once the signal
+ * aborts, the generator is returned early (so its `finally` blocks and
+ * deferred finalizers run), and the run settles with an `AbortedError` Err.
+ *
  * @template Yields - The type of the yielded values (given to `yield*`).
  * @template U - The type of the final result.
- * @param {() => Generator<Yields, U, any>} fn - The generator function to run.
+ * @param {() => Generator<Yields, U, any> | AsyncGenerator<Yields, U, any>} fn
+ *   - The generator function to run.
  */
-AsyncResult.run = <Yields extends AsyncResult<any, any> | Result<any, any>, U>(
-  fn: () => Generator<Yields, U, any>
-): AsyncResult<U, AsyncErrType<Yields>> => {
+function run<
+  Yields extends AsyncResult<any, any> | Result<any, any> | Deferred<any, any>,
+  U
+>(
+  fn: () => Generator<Yields, U, any> | AsyncGenerator<Yields, U, any>
+): AsyncResult<U, AsyncRunErrType<Yields>>;
+function run<
+  Yields extends AsyncResult<any, any> | Result<any, any> | Deferred<any, any>,
+  U
+>(
+  fn: (
+    signal: AbortSignal
+  ) => Generator<Yields, U, any> | AsyncGenerator<Yields, U, any>,
+  options: AbortOptions
+): AsyncResult<U, AsyncRunErrType<Yields> | AbortedError>;
+function run<
+  Yields extends AsyncResult<any, any> | Result<any, any> | Deferred<any, any>,
+  U
+>(
+  fn: (
+    signal: AbortSignal
+  ) => Generator<Yields, U, any> | AsyncGenerator<Yields, U, any>,
+  options?: AbortOptions
+): AsyncResult<U, AsyncRunErrType<Yields> | AbortedError> {
   /**
    * @see {Result.run} for implementation details.
    */
-  return AsyncResult<any, any>(
+  const signal = options?.signal;
+  const finalizers: Deferred<unknown, boolean>[] = [];
+  const result = AsyncResult<any, any>(
     (async () => {
-      const gen = fn();
-      return AsyncResult<any, any>(Promise.resolve(Ok(undefined))).then_(
-        async function andThen(
-          v
-        ): Promise<AsyncResult<any, any> | Result<any, any>> {
-          const { value, done } = gen.next(v);
-
-          if (done) {
-            return toResultPromise(value);
+      const gen = signal
+        ? fn(signal)
+        : (fn as () => Generator<Yields, U> | AsyncGenerator<Yields, U>)();
+
+      // NB: an async generator may be awaiting a plain promise, rather than
+      // sitting at a `yield*`, when the signal aborts, so each step races the
+      // signal too. If it loses, the generator's asked to return, which takes
+      // effect once it next yields, and the run ends with the AbortedError.
+      const next = (v: unknown) =>
+        abortable(
+          Promise.resolve(gen.next(v)).then((it) => Ok(it)),
+          signal
+        ).then((step) => {
+          if (step.data.isOk) {
+            return step.data.value;
           }
+          Promise.resolve(gen.return?.(undefined as any)).catch(() => {});
+          return { value: step, done: true } as const;
+        });
+
+      // NB: the steps' AsyncResults don't carry the signal (they're made
+      // abortable with `abortable` instead), so that an abort waits for the
+      // generator to return before the finalizers run.
+      const started = abortable(Promise.resolve(Ok(undefined)), signal);
+      return AsyncResult<any, any>(started).then_(async function andThen(
+        v
+      ): Promise<AsyncResult<any, any> | Result<any, any>> {
+        let { value, done } = await next(v);
 
-          return AsyncResult(toResultPromise(value)).then_(
-            (value) => andThen(value),
-            (err) =>
-              AsyncResult(Err(err)).finally_(() => {
-                return gen.return?.(err as any) as any;
-              }),
-            (err) =>
-              AsyncResult(Promise.reject(err)).finally_(() => {
-                return gen.return?.(err as any) as any;
-              })
-          );
+        while (!done && value instanceof Deferred) {
+          finalizers.push(value);
+          ({ value, done } = await next(undefined));
         }
-      );
+
+        if (done) {
+          return toResultPromise(value);
+        }
+
+        return AsyncResult(abortable(toResultPromise(value), signal)).then_(
+          (value) => andThen(value),
+          (err) =>
+            AsyncResult(Err(err)).finally_(() => {
+              return gen.return?.(err as any) as any;
+            }),
+          (err) =>
+            AsyncResult(Promise.reject(err)).finally_(() => {
+              return gen.return?.(err as any) as any;
+            })
+        );
+      });
     })()
   );
+
+  return new _AsyncResult(
+    result.resultPromise.then(
+      (result) => runFinalizers({ type: "result", result }, finalizers),
+      (reason) => runFinalizers({ type: "thrown", reason }, finalizers)
+    ),
+    signal
+  );
+}
+
+AsyncResult.run = run;
+
+/**
+ * Like `Result.fn`, but for generator functions that would be given to
+ * `AsyncResult.run` (which can be async, and can yield AsyncResults).
+ */
+AsyncResult.fn = <
+  This,
+  Args extends unknown[],
+  Yields extends AsyncResult<any, any> | Result<any, any> | Deferred<any, any>,
+  U
+>(
+  body: (
+    this: This,
+    ...args: Args
+  ) => Generator<Yields, U, any> | AsyncGenerator<Yields, U, any>,
+  options?: FnOptions
+): ((this: This, ...args: Args) => AsyncResult<U, AsyncRunErrType<Yields>>) => {
+  return withName(function (this: This, ...args: Args) {
+    return run(() => body.apply(this, args));
+  }, options?.name ?? body.name);
+};
+
+/**
+ * Like `Result.defer`, but for use in the body of a generator passed to
+ * `AsyncResult.run`. The callback can be async, and the run's AsyncResult
+ * won't settle until it's done.
+ */
+AsyncResult.defer = <E2 = never>(
+  cb: () => void | ResultPromisable<unknown, E2>
+): Deferred<E2, true> => {
+  return new Deferred(cb);
+};
+
+/**
+ * Acquires a resource, uses it, and then releases it, whether or not using it
+ * succeeded. If `release` isn't given, the resource is released by calling
+ * its `[Symbol.asyncDispose]()` or `[Symbol.dispose]()` method.
+ *
+ * If acquiring the resource fails, neither `use` nor `release` is called. If
+ * releasing the resource produces an Err, that becomes the result, or, if
+ * `use` also produced an Err, the two errors are combined into an
+ * AggregateError. (Rejections are combined the same way.)
+ */
+function bracket<R extends Disposable | AsyncDisposable, T, E1, E2>(
+  acquire: () => ResultPromisable<R, E1>,
+  use: (resource: R) => ResultPromisable<T, E2>
+): AsyncResult<T, E1 | E2>;
+function bracket<R, T, E1, E2, E3 = never>(
+  acquire: () => ResultPromisable<R, E1>,
+  use: (resource: R) => ResultPromisable<T, E2>,
+  release: (resource: R) => void | ResultPromisable<unknown, E3>
+): AsyncResult<T, E1 | E2 | E3 | (AggregateError & { errors: (E2 | E3)[] })>;
+function bracket<R, T, E1, E2, E3 = never>(
+  acquire: () => ResultPromisable<R, E1>,
+  use: (resource: R) => ResultPromisable<T, E2>,
+  release?: (resource: R) => void | ResultPromisable<unknown, E3>
+): AsyncResult<T, any> {
+  return AsyncResult.run(async function* () {
+    const resource = yield* AsyncResult.fromFunc(acquire);
+    yield* AsyncResult.defer(() =>
+      release
+        ? release(resource)
+        : dispose(resource as Disposable | AsyncDisposable)
+    );
+    return yield* AsyncResult.fromFunc(() => use(resource));
+  });
+}
+
+AsyncResult.bracket = bracket;
+
+/**
+ * Returns an AsyncResult that resolves to the given value (which can itself be
+ * a Result, AsyncResult, or promise) after `ms` milliseconds.
+ */
+function delay(ms: number): AsyncResult<void, never>;
+function delay<T, E = never>(
+  ms: number,
+  value: ResultPromisable<T, E>
+): AsyncResult<T, E>;
+function delay<T, E = never>(
+  ms: number,
+  value?: ResultPromisable<T, E>
+): AsyncResult<T | undefined, E> {
+  // NB: settle `value` now, marking a rejection as handled, so that it can't
+  // go unhandled while the timer runs.
+  const settled = toResultPromise(value as ResultPromisable<T | undefined, E>);
+  settled.catch(() => {});
+  return AsyncResult(
+    new Promise<void>((resolve) => setTimeout(resolve, ms)).then(() => settled)
+  );
+}
+
+AsyncResult.delay = delay;
+
+/**
+ * Returns an AsyncResult that resolves after `ms` milliseconds. Useful with
+ * `yield*` in the body of a generator passed to `AsyncResult.run`.
+ */
+AsyncResult.sleep = (ms: number): AsyncResult<void, never> => delay(ms);
+
+type RetryOptions = {
+  /**
+   * Whether attempts that reject (rather than producing an Err) should be
+   * retried too. Defaults to false, in which case a rejection is passed
+   * through immediately.
+   */
+  retryRejections?: boolean;
+  clock?: Clock;
 };
 
+/**
+ * Calls `fn`, and, for as long as the attempt fails and the schedule allows,
+ * waits and calls it again. Resolves with the first successful attempt's
+ * value or, if the schedule gives up, with an Err holding a RetryError, which
+ * carries every attempt's error.
+ *
+ * @example
+ * ```
+ * const user = AsyncResult.retry(
+ *   () => fetchUser(id),
+ *   Schedule.exponential(100).jittered().maxAttempts(5)
+ * );
+ * ```
+ */
+function retry<T, E>(
+  fn: () => ResultPromisable<T, E>,
+  schedule: Schedule<NoInfer<E>>,
+  options?: RetryOptions & { retryRejections?: false }
+): AsyncResult<T, RetryError<E>>;
+function retry<T, E>(
+  fn: () => ResultPromisable<T, E>,
+  schedule: Schedule<unknown>,
+  options: RetryOptions & { retryRejections: true }
+): AsyncResult<T, RetryError<unknown>>;
+function retry<T, E>(
+  fn: () => ResultPromisable<T, E>,
+  schedule: Schedule<unknown>,
+  options: RetryOptions = {}
+): AsyncResult<T, RetryError<unknown>> {
+  const { retryRejections = false, clock = systemClock } = options;
+
+  return new _AsyncResult(
+    (async () => {
+      const start = clock.now();
+      const errors: unknown[] = [];
+
+      for (let attempt = 1; ; attempt++) {
+        let error: unknown;
+        try {
+          const result = await toResultPromise(fn());
+          if (result.data.isOk) {
+            return Ok(result.data.value);
+          }
+          error = result.data.value;
+        } catch (reason) {
+          if (!retryRejections) {
+            throw reason;
+          }
+          error = reason;
+        }
+
+        errors.push(error);
+        const delay = schedule.nextDelay({
+          attempt,
+          error,
+          elapsed: clock.now() - start,
+        });
+
+        if (delay === undefined) {
+          return Err(new RetryError(errors));
+        }
+        await clock.sleep(delay);
+      }
+    })()
+  );
+}
+
+AsyncResult.retry = retry;
+
 AsyncResult.compose = c;
 
-function c<T, U, V, W, X, Y, Z>(
-  f0: (v: T) => ResultPromisable<U, V>,
-  f1: (v: U) => ResultPromisable<W, X>
-): (v: T) => ResultPromisable<W, X>;
-function c<T, U, V, W, X, Y, Z>(
-  f0: (v: T) => ResultPromisable<U, V>,
-  f1: (v: U) => ResultPromisable<W, X>,
-  f2: (v: W) => ResultPromisable<Y, Z>
-): (v: T) => ResultPromisable<Y, Z>;
-function c<T, U, V, W, X, Y, Z, A, B>(
-  f0: (v: T) => ResultPromisable<U, V>,
-  f1: (v: U) => ResultPromisable<W, X>,
-  f2: (v: W) => ResultPromisable<Y, Z>,
-  f3: (v: Y) => ResultPromisable<A, B>
-): (v: T) => ResultPromisable<A, B>;
-function c<T, U, V, W, X, Y, Z, A, B, C, D>(
-  f0: (v: T) => ResultPromisable<U, V>,
-  f1: (v: U) => ResultPromisable<W, X>,
-  f2: (v: W) => ResultPromisable<Y, Z>,
-  f3: (v: Y) => ResultPromisable<A, B>,
-  f4: (v: A) => ResultPromisable<C, D>
-): (v: T) => ResultPromisable<C, D>;
-function c<T, U, V, W, X, Y, Z, A, B, C, D, E, F>(
-  f0: (v: T) => ResultPromisable<U, V>,
-  f1: (v: U) => ResultPromisable<W, X>,
-  f2: (v: W) => ResultPromisable<Y, Z>,
-  f3: (v: Y) => ResultPromisable<A, B>,
-  f4: (v: A) => ResultPromisable<C, D>,
-  f5: (v: C) => ResultPromisable<E, F>
-): (v: T) => ResultPromisable<E, F>;
-function c<T, U, V, W, X, Y, Z, A, B, C, D, E, F, G, H>(
-  f0: (v: T) => ResultPromisable<U, V>,
-  f1: (v: U) => ResultPromisable<W, X>,
-  f2: (v: W) => ResultPromisable<Y, Z>,
-  f3: (v: Y) => ResultPromisable<A, B>,
-  f4: (v: A) => ResultPromisable<C, D>,
-  f5: (v: C) => ResultPromisable<E, F>,
-  f6: (v: E) => ResultPromisable<G, H>
-): (v: T) => ResultPromisable<G, H>;
-function c<T, U, V, W, X, Y, Z, A, B, C, D, E, F, G, H, I, J>(
-  f0: (v: T) => ResultPromisable<U, V>,
-  f1: (v: U) => ResultPromisable<W, X>,
-  f2: (v: W) => ResultPromisable<Y, Z>,
-  f3: (v: Y) => ResultPromisable<A, B>,
-  f4: (v: A) => ResultPromisable<C, D>,
-  f5: (v: C) => ResultPromisable<E, F>,
-  f6: (v: E) => ResultPromisable<G, H>,
-  f7: (v: G) => ResultPromisable<I, J>
-): (v: T) => ResultPromisable<I, J>;
-function c<T, U, V, W, X, Y, Z, A, B, C, D, E, F, G, H, I, J, K, L>(
-  f0: (v: T) => ResultPromisable<U, V>,
-  f1: (v: U) => ResultPromisable<W, X>,
-  f2: (v: W) => ResultPromisable<Y, Z>,
-  f3: (v: Y) => ResultPromisable<A, B>,
-  f4: (v: A) => ResultPromisable<C, D>,
-  f5: (v: C) => ResultPromisable<E, F>,
-  f6: (v: E) => ResultPromisable<G, H>,
-  f7: (v: G) => ResultPromisable<I, J>,
-  f8: (v: I) => ResultPromisable<K, L>
-): (v: T) => ResultPromisable<K, L>;
-function c<T, U, V, W, X, Y, Z, A, B, C, D, E, F, G, H, I, J, K, L, M, N>(
-  f0: (v: T) => ResultPromisable<U, V>,
-  f1: (v: U) => ResultPromisable<W, X>,
-  f2: (v: W) => ResultPromisable<Y, Z>,
-  f3: (v: Y) => ResultPromisable<A, B>,
-  f4: (v: A) => ResultPromisable<C, D>,
-  f5: (v: C) => ResultPromisable<E, F>,
-  f6: (v: E) => ResultPromisable<G, H>,
-  f7: (v: G) => ResultPromisable<I, J>,
-  f8: (v: I) => ResultPromisable<K, L>,
-  f9: (v: K) => ResultPromisable<M, N>
-): (v: T) => ResultPromisable<M, N>;
-function c<T, U, V, W, X, Y, Z, A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P>(
-  f0: (v: T) => ResultPromisable<U, V>,
-  f1: (v: U) => ResultPromisable<W, X>,
-  f2: (v: W) => ResultPromisable<Y, Z>,
-  f3: (v: Y) => ResultPromisable<A, B>,
-  f4: (v: A) => ResultPromisable<C, D>,
-  f5: (v: C) => ResultPromisable<E, F>,
-  f6: (v: E) => ResultPromisable<G, H>,
-  f7: (v: G) => ResultPromisable<I, J>,
-  f8: (v: I) => ResultPromisable<K, L>,
-  f9: (v: K) => ResultPromisable<M, N>,
-  f10: (v: M) => ResultPromisable<O, P>
-): (v: T) => ResultPromisable<O, P>;
-function c(...fns: NonEmptyArray<(v: any) => ResultPromisable<any, any>>) {
+function c<
+  T,
+  T1,
+  E1,
+  T2 = NoStep,
+  T3 = NoStep,
+  T4 = NoStep,
+  T5 = NoStep,
+  T6 = NoStep,
+  T7 = NoStep,
+  T8 = NoStep,
+  T9 = NoStep,
+  T10 = NoStep,
+  T11 = NoStep,
+  T12 = NoStep,
+  T13 = NoStep,
+  T14 = NoStep,
+  T15 = NoStep,
+  T16 = NoStep,
+  E2 = never,
+  E3 = never,
+  E4 = never,
+  E5 = never,
+  E6 = never,
+  E7 = never,
+  E8 = never,
+  E9 = never,
+  E10 = never,
+  E11 = never,
+  E12 = never,
+  E13 = never,
+  E14 = never,
+  E15 = never,
+  E16 = never
+>(
+  ...fns: ComposeFns<
+    T,
+    [T1, T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13, T14, T15, T16],
+    [E1, E2, E3, E4, E5, E6, E7, E8, E9, E10, E11, E12, E13, E14, E15, E16],
+    true
+  >
+): (
+  v: T
+) => AsyncResult<
+  ChainOkType<
+    T1,
+    [T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13, T14, T15, T16]
+  >,
+  | E1
+  | E2
+  | E3
+  | E4
+  | E5
+  | E6
+  | E7
+  | E8
+  | E9
+  | E10
+  | E11
+  | E12
+  | E13
+  | E14
+  | E15
+  | E16
+>;
+function c<Fns extends LongChain>(
+  ...fns: LongComposeFns<Fns, true>
+): (
+  v: Parameters<Fns[0]>[0]
+) => AsyncResult<LongChainOkType<Fns, true>, LongChainErrType<Fns, true>>;
+function c(...fns: any[]) {
   return (v: any) => {
     const [fn, ...restFns] = fns;
-    let result = fn(v);
+    let result: AsyncResult<any, any> = AsyncResult(fn(v));
     for (const fn of restFns) {
       result = result.then_(fn);
     }
@@ -516,9 +1635,80 @@ function c(...fns: NonEmptyArray<(v: any) => ResultPromisable<any, any>>) {
   };
 }
 
+// Like `RunErrType`, but also handles AsyncResults being yielded.
+type AsyncRunErrType<Yields> = RunErrType<
+  Yields extends AsyncResult<infer T, infer E> ? Result<T, E> : Yields
+>;
+
+async function runFinalizers(
+  primary: Outcome,
+  finalizers: Deferred<unknown, boolean>[]
+): Promise<Result<any, any>> {
+  const outcomes: Outcome[] = [];
+  for (const { finalizer } of finalizers.reverse()) {
+    try {
+      const returned = finalizer() as ResultPromisable<unknown, unknown>;
+      outcomes.push({
+        type: "result",
+        result: await toResultPromise(returned),
+      });
+    } catch (reason) {
+      outcomes.push({ type: "thrown", reason });
+    }
+  }
+  return settleFinalized(primary, outcomes);
+}
+
+type AbortOptions = { signal: AbortSignal };
+
+/**
+ * Returns a promise that settles like the given one or, if the signal aborts
+ * first, resolves with an `AbortedError` Err.
+ *
+ * NB: callers must make sure that `E` includes `AbortedError` whenever a
+ * signal's given (which the public signatures that accept a signal do), which
+ * is why AsyncResults only pass on their signal while their `E` still does.
+ */
+function abortable<T, E>(
+  promise: Promise<Result<T, E>>,
+  signal: AbortSignal | undefined
+): Promise<Result<T, E>> {
+  if (!signal) {
+    return promise;
+  }
+
+  const aborted = () =>
+    Err(new AbortedError(signal.reason)) as Result<never, any>;
+
+  if (signal.aborted) {
+    return Promise.resolve(aborted());
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => resolve(aborted());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+function dispose(resource: Disposable | AsyncDisposable) {
+  return Symbol.asyncDispose in resource
+    ? resource[Symbol.asyncDispose]()
+    : resource[Symbol.dispose]();
+}
+
+// The things that `flatMap` and `orElse` accept as a result: unlike
+// `ResultPromisable`, these don't include plain values.
+type ResultLike<T, E> =
+  | Result<T, E>
+  | AsyncResult<T, E>
+  | Promise<Result<T, E>>;
+
 // NB: The order of items in this union effects type inference!
 // Leave the more specific ones first.
-type ResultPromisable<T, E = never> =
+export type ResultPromisable<T, E = never> =
   | Promise<
       | T
       | Result<T, E>
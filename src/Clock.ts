@@ -0,0 +1,18 @@
+/**
+ * @fileoverview This file defines the `Clock` that time-based helpers (like
+ * `AsyncResult.retry`) use to read the current time and to wait. They accept
+ * a custom clock, so that tests can control time deterministically.
+ */
+
+export type Clock = {
+  /** The current time, in milliseconds. */
+  now(): number;
+
+  /** Returns a promise that resolves after `ms` milliseconds. */
+  sleep(ms: number): Promise<void>;
+};
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
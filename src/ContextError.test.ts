@@ -0,0 +1,49 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { ContextError, errorChain, underlyingError } from "./ContextError.js";
+
+describe("ContextError", () => {
+  it("should use the context as its message and keep the original as its cause", () => {
+    const cause = new Error("ENOENT");
+    const error = new ContextError("loading tenant config", cause);
+
+    assert.strictEqual(error.name, "ContextError");
+    assert.strictEqual(error.message, "loading tenant config");
+    assert.strictEqual(error.cause, cause);
+    assert.strictEqual(Object.keys(error).includes("cause"), false);
+  });
+
+  describe("errorChain", () => {
+    it("should yield the error and each of its causes, in order", () => {
+      const root = new Error("ENOENT");
+      const middle = new ContextError("reading file", root);
+      const outer = new ContextError("loading tenant config", middle);
+
+      assert.deepStrictEqual([...errorChain(outer)], [outer, middle, root]);
+      assert.deepStrictEqual([...errorChain("not an error")], ["not an error"]);
+    });
+
+    it("should stop on cycles", () => {
+      const a: { cause?: unknown } = {};
+      const b = { cause: a };
+      a.cause = b;
+
+      assert.deepStrictEqual([...errorChain(a)], [a, b]);
+    });
+  });
+
+  describe("underlyingError", () => {
+    it("should unwrap nested ContextErrors, but no other causes", () => {
+      const root = new Error("root");
+      const notContext = Object.assign(new Error("not context"), {
+        cause: root,
+      });
+      const error = new ContextError("outer", new ContextError("inner", root));
+      const error2 = new ContextError("outer", notContext);
+
+      assert.strictEqual(underlyingError(error), root);
+      assert.strictEqual(underlyingError(error2), notContext);
+      assert.strictEqual(underlyingError(root), root);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview This file defines `ContextError`, which `result.context()`
+ * uses to wrap an Err's error with a description of what was being attempted
+ * when the error occurred (e.g., "loading tenant config"). The original error
+ * is kept as the wrapper's `cause`, and its type is kept in the wrapper's type
+ * parameter, so it's still recoverable (e.g., with `catchUnderlyingInstanceOf`).
+ */
+import { setCause } from "./utils.js";
+
+export class ContextError<E = unknown> extends Error {
+  public override readonly name = "ContextError";
+  public declare readonly cause: E;
+
+  constructor(context: string, cause: E) {
+    super(context);
+    setCause(this, cause);
+  }
+}
+
+/**
+ * The type of the error(s) wrapped by any (possibly nested) ContextErrors in
+ * the union `E`.
+ */
+export type UnderlyingError<E> = E extends ContextError<infer Inner>
+  ? UnderlyingError<Inner>
+  : E;
+
+/**
+ * Removes `ToRemove` from the union `E`, including from inside any
+ * ContextErrors (which are themselves removed if nothing is left inside them).
+ */
+export type ExcludeUnderlying<E, ToRemove> = E extends ContextError<infer Inner>
+  ? ExcludeUnderlying<Inner, ToRemove> extends infer Rest
+    ? [Rest] extends [never]
+      ? never
+      : ContextError<Rest>
+    : never
+  : Exclude<E, ToRemove>;
+
+/**
+ * Walks an error's `cause` chain, starting with the error itself.
+ */
+export function* errorChain(error: unknown): Generator<unknown, void> {
+  const seen = new Set<unknown>();
+  let current = error;
+
+  while (!seen.has(current)) {
+    yield current;
+    seen.add(current);
+
+    if (
+      typeof current !== "object" ||
+      current === null ||
+      !("cause" in current)
+    ) {
+      return;
+    }
+    current = current.cause;
+  }
+}
+
+/**
+ * Returns the error wrapped by any (possibly nested) ContextErrors.
+ */
+export function underlyingError<E>(error: E): UnderlyingError<E> {
+  let current: unknown = error;
+  while (current instanceof ContextError) {
+    current = current.cause;
+  }
+  return current as UnderlyingError<E>;
+}
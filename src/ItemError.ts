@@ -0,0 +1,43 @@
+/**
+ * @fileoverview This file defines `ItemError`, which helpers that process
+ * many items (like `AsyncResult.mapConcurrent`) use to report which item
+ * failed (by its index and, for Maps, its key).
+ */
+import { setCause } from "./utils.js";
+
+export class ItemError<E = unknown, K = unknown> extends Error {
+  public override readonly name = "ItemError";
+  public declare readonly cause: E;
+
+  /** The item's key, if the items were the entries of a Map. */
+  public declare readonly key?: K;
+
+  constructor(public readonly index: number, cause: E, ...key: [K] | []) {
+    super(
+      key.length
+        ? `Item ${index} (key ${String(key[0])}) failed`
+        : `Item ${index} failed`
+    );
+    setCause(this, cause);
+    if (key.length) {
+      this.key = key[0];
+    }
+  }
+}
+
+/**
+ * Returns the ItemError for the item at `index`, recording the item's key if
+ * `items` is a Map (whose items are its `[key, value]` entries).
+ *
+ * @internal
+ */
+export function itemError<E>(
+  items: Iterable<unknown>,
+  index: number,
+  item: unknown,
+  cause: E
+) {
+  return items instanceof Map
+    ? new ItemError(index, cause, (item as [unknown, unknown])[0])
+    : new ItemError(index, cause);
+}
@@ -1,6 +1,20 @@
 import assert from "node:assert";
 import { describe, it, mock } from "node:test";
-import { Err, Ok, Result } from "./Result.js";
+import { AsyncResult } from "./AsyncResult.js";
+import { ContextError } from "./ContextError.js";
+import { ItemError } from "./ItemError.js";
+import {
+  Err,
+  Fail,
+  Ok,
+  Result,
+  isErr,
+  isOk,
+  type ErrResult,
+  type OkResult,
+} from "./Result.js";
+import { ResultError } from "./ResultError.js";
+import type { NonEmptyArray } from "./utils.js";
 
 class CustomError extends Error {
   public override readonly name = "CustomError";
@@ -46,6 +60,217 @@ describe("Result", () => {
     });
   });
 
+  describe("isOk and isErr", () => {
+    it("should narrow the Result, so its value or error is typed precisely", () => {
+      const error = new CustomError();
+      const ok: Result<number, CustomError> = Ok(1);
+      const err: Result<number, CustomError> = Err(error);
+      const results = [ok, err, Ok(2)];
+
+      if (ok.isOk()) {
+        const value: number = ok.value;
+        assert.strictEqual(value, 1);
+      }
+      if (err.isErr()) {
+        const narrowedError: CustomError = err.error;
+        assert.strictEqual(narrowedError, error);
+      }
+      assert.strictEqual(ok.error, undefined);
+      assert.strictEqual(err.value, undefined);
+
+      const oks: OkResult<number>[] = results.filter(isOk);
+      const errs: ErrResult<CustomError>[] = results.filter(isErr);
+      assert.deepStrictEqual(
+        oks.map((it) => it.value),
+        [1, 2]
+      );
+      assert.deepStrictEqual(
+        errs.map((it) => it.error),
+        [error]
+      );
+
+      function _typeTest() {
+        // @ts-expect-error value might be undefined before narrowing.
+        const value: number = ok.value;
+      }
+    });
+
+    it("should keep Ok and Err assignable from what the constructors return", () => {
+      const makeOk = (): Ok<number> => Ok(1);
+      function makeErr(): Err<CustomError> {
+        return Err(new CustomError());
+      }
+
+      assert.deepStrictEqual(makeOk(), Ok(1));
+      assert.deepStrictEqual(makeErr(), Err(new CustomError()));
+    });
+  });
+
+  describe("Fail", () => {
+    type Conflict = { readonly code: 409; readonly field: "email" };
+    const charge = (
+      amount: number
+    ): Result<number, "INSUFFICIENT_FUNDS" | CustomError> =>
+      amount > 100
+        ? Fail("INSUFFICIENT_FUNDS")
+        : amount < 0
+        ? Err(new CustomError())
+        : Ok(amount);
+
+    it("should create Errs holding non-Error values, with literal types", () => {
+      const code: Result<never, "INSUFFICIENT_FUNDS"> =
+        Fail("INSUFFICIENT_FUNDS");
+      const conflict: Result<never, Conflict> = Fail({
+        code: 409,
+        field: "email",
+      });
+
+      assert.deepStrictEqual(code.data, {
+        isOk: false,
+        value: "INSUFFICIENT_FUNDS",
+      });
+      assert.deepStrictEqual(conflict.error, { code: 409, field: "email" });
+    });
+
+    it("should keep non-Error values typed through catch_, catchInstanceOf and combinators", () => {
+      const caught: Result<number, "INSUFFICIENT_FUNDS"> = charge(
+        -1
+      ).catchInstanceOf(CustomError, () => 0);
+      const recovered: Result<number, Conflict> = charge(101).catch_((e) =>
+        e === "INSUFFICIENT_FUNDS" ? 0 : Fail({ code: 409, field: "email" })
+      );
+      const all: Result<[number, number], "INSUFFICIENT_FUNDS" | CustomError> =
+        Result.all([charge(1), charge(101)]);
+      const allErrors: Result<
+        [number, number],
+        NonEmptyArray<"INSUFFICIENT_FUNDS" | CustomError>
+      > = Result.allErrors([charge(101), charge(-1)]);
+
+      assert.deepStrictEqual(caught, Ok(0));
+      assert.deepStrictEqual(recovered, Ok(0));
+      assert.deepStrictEqual(all, Fail("INSUFFICIENT_FUNDS"));
+      assert.deepStrictEqual(
+        allErrors,
+        Fail(["INSUFFICIENT_FUNDS", new CustomError()])
+      );
+    });
+
+    it("should throw a ResultError holding the value from valueOrThrow", () => {
+      assert.throws(
+        () => charge(101).valueOrThrow(),
+        (e) => {
+          assert.ok(e instanceof ResultError);
+          assert.strictEqual(e.cause, "INSUFFICIENT_FUNDS");
+          assert.strictEqual(
+            e.message,
+            "Result was an Err: INSUFFICIENT_FUNDS"
+          );
+          return true;
+        }
+      );
+      assert.throws(
+        () => Fail({ code: 409 }).valueOrThrow(),
+        /Result was an Err: {"code":409}/
+      );
+
+      // Errors are still thrown as-is.
+      assert.throws(() => charge(-1).valueOrThrow(), CustomError);
+    });
+  });
+
+  describe("expect, unwrapOr and unwrapErr", () => {
+    it("should return the expected side, or throw/fall back", () => {
+      const error = new CustomError();
+      const ok = Ok(42) as Result<number, CustomError>;
+      const err = Err(error) as Result<number, CustomError>;
+
+      assert.strictEqual(ok.expect("should be ok"), 42);
+      assert.throws(
+        () => err.expect("should be ok"),
+        (e) => {
+          assert.deepStrictEqual(e, new ContextError("should be ok", error));
+          return true;
+        }
+      );
+      assert.strictEqual(ok.unwrapOr("fallback"), 42);
+      assert.strictEqual(err.unwrapOr("fallback"), "fallback");
+      assert.strictEqual(err.unwrapErr(), error);
+      assert.throws(() => ok.unwrapErr(), /Called unwrapErr\(\) on an Ok/);
+    });
+  });
+
+  describe("ok, err, isOkAnd and isErrAnd", () => {
+    it("should inspect the Result without throwing", () => {
+      const error = new CustomError();
+      const ok = Ok(42) as Result<number, CustomError>;
+      const err = Err(error) as Result<number, CustomError>;
+      const isBig = (it: number) => it > 10;
+      const isCustom = (it: Error) => it.name === "CustomError";
+
+      assert.strictEqual(ok.ok(), 42);
+      assert.strictEqual(err.ok(), undefined);
+      assert.strictEqual(ok.err(), undefined);
+      assert.strictEqual(err.err(), error);
+      assert.deepStrictEqual(
+        [ok.isOkAnd(isBig), Ok(1).isOkAnd(isBig), err.isOkAnd(isBig)],
+        [true, false, false]
+      );
+      assert.deepStrictEqual(
+        [err.isErrAnd(isCustom), Err(new Error()).isErrAnd(isCustom)],
+        [true, false]
+      );
+      assert.strictEqual(ok.isErrAnd(isCustom), false);
+    });
+  });
+
+  describe("transpose", () => {
+    it("should turn a Result of an AsyncResult into an AsyncResult", async () => {
+      const error = new CustomError();
+      const anotherError = new AnotherError();
+      const transposed: AsyncResult<number, CustomError | AnotherError> = (
+        Ok(AsyncResult(Err(anotherError))) as Result<
+          AsyncResult<number, AnotherError>,
+          CustomError
+        >
+      ).transpose();
+
+      assert.deepStrictEqual(await transposed, Err(anotherError));
+      assert.deepStrictEqual(await Ok(AsyncResult(1)).transpose(), Ok(1));
+      assert.deepStrictEqual(
+        await (Err(error) as Result<AsyncResult<number, never>, CustomError>)
+          .transpose()
+          .valueOrFallback((it) => it),
+        error
+      );
+    });
+  });
+
+  describe("match", () => {
+    it("should call the arm matching the Result and return its value", () => {
+      const err = new CustomError("hi");
+      const ok = mock.fn((v: number) => v * 2);
+      const errArm = mock.fn((e: CustomError) => e.message);
+
+      const result: number | string = Ok(42).match({ ok, err: errArm });
+      const result2: number | string = Err(err).match({ ok, err: errArm });
+
+      assert.strictEqual(result, 84);
+      assert.strictEqual(result2, "hi");
+      assert.strictEqual(ok.mock.callCount(), 1);
+      assert.strictEqual(errArm.mock.callCount(), 1);
+    });
+
+    it("should not wrap the arms' return values in a Result", () => {
+      const err = new CustomError("hi");
+      assert.strictEqual(Err(err).match({ ok: () => 1, err: (e) => e }), err);
+    });
+
+    it("is a type error if an arm is missing", () => {
+      // @ts-expect-error
+      Ok(42).match({ ok: (v) => v });
+    });
+  });
+
   describe("then_", () => {
     it("if the result is Err, should return the existing Result as-is and not call callback", () => {
       const error = new Error("Something went wrong");
@@ -185,6 +410,180 @@ describe("Result", () => {
     });
   });
 
+  describe("context", () => {
+    it("should wrap an Err's error in a ContextError", () => {
+      const error = new CustomError("ENOENT");
+      const result: Result<number, ContextError<CustomError>> = Err(
+        error
+      ).context("loading tenant config");
+
+      assert.deepStrictEqual(
+        result,
+        Err(new ContextError("loading tenant config", error))
+      );
+      assert.strictEqual(
+        result.valueOrFallback((e) => e.cause),
+        error
+      );
+    });
+
+    it("should return Oks as-is", () => {
+      assert.deepStrictEqual(Ok(42).context("loading"), Ok(42));
+    });
+  });
+
+  describe("catchUnderlyingInstanceOf", () => {
+    it("should look through ContextErrors to find the error to catch", () => {
+      const result: Result<
+        string,
+        ContextError<ContextError<AnotherError>>
+      > = Err<CustomError | AnotherError>(
+        new CustomError("Something went wrong")
+      )
+        .context("inner")
+        .context("outer")
+        .catchUnderlyingInstanceOf(CustomError, (e) => e.message);
+
+      assert.deepStrictEqual(result, Ok("Something went wrong"));
+    });
+
+    it("should return the original (wrapped) error if the underlying error is of a different type", () => {
+      const cb = mock.fn((e: CustomError) => e.message);
+      const error = new ContextError("outer", new AnotherError());
+      const result = Err<ContextError<CustomError | AnotherError>>(
+        error
+      ).catchUnderlyingInstanceOf(CustomError, cb);
+
+      assert.strictEqual(
+        result.valueOrFallback((e) => e),
+        error
+      );
+      assert.strictEqual(cb.mock.callCount(), 0);
+    });
+
+    it("should work with unwrapped errors too", () => {
+      const result: Result<string, ContextError<AnotherError>> = Err<
+        CustomError | ContextError<AnotherError>
+      >(new CustomError("hi")).catchUnderlyingInstanceOf(
+        CustomError,
+        (e) => e.message
+      );
+
+      assert.deepStrictEqual(result, Ok("hi"));
+    });
+  });
+
+  describe("catchTag", () => {
+    class NotFoundError extends Error {
+      readonly _tag = "NotFound";
+    }
+    class ConflictError extends Error {
+      readonly _tag = "Conflict";
+    }
+
+    it("if the result is Err with the specified tag, should call the callback correctly", () => {
+      const result: Result<string, ConflictError> = Err<
+        NotFoundError | ConflictError
+      >(new NotFoundError("missing")).catchTag("NotFound", (e) =>
+        Ok(e.message)
+      );
+
+      // falls back to a literal `name` when there's no `_tag`
+      const result2: Result<string, AnotherError> = Err<
+        CustomError | AnotherError
+      >(new CustomError("custom")).catchTag("CustomError", (e) => e.message);
+
+      assert.deepStrictEqual(result, Ok("missing"));
+      assert.deepStrictEqual(result2, Ok("custom"));
+    });
+
+    it("if the result is Err with a different tag, should return the original error", () => {
+      const cb = mock.fn((e: NotFoundError) => Ok(e.message));
+      const result = Err<NotFoundError | ConflictError>(
+        new ConflictError()
+      ).catchTag("NotFound", cb);
+
+      assert.deepStrictEqual(result, Err(new ConflictError()));
+      assert.strictEqual(cb.mock.callCount(), 0);
+    });
+
+    it("is a type error if no error type has the tag", () => {
+      Err<NotFoundError | ConflictError>(new ConflictError()).catchTag(
+        // @ts-expect-error
+        "Bogus",
+        () => undefined
+      );
+
+      // plain Errors have no tag, since their `name` is just `string`.
+      // @ts-expect-error
+      Err(new Error()).catchTag("Error", () => undefined);
+    });
+  });
+
+  describe("catchTags", () => {
+    class NotFoundError extends Error {
+      readonly _tag = "NotFound";
+    }
+    class ConflictError extends Error {
+      readonly _tag = "Conflict";
+    }
+
+    it("should call the callback for the error's tag, if any", () => {
+      const handlers = {
+        NotFound: mock.fn((e: NotFoundError) => Ok(404)),
+        Conflict: mock.fn((e: ConflictError) => Err(new CustomError())),
+      };
+
+      const result: Result<number, CustomError> = Err<
+        NotFoundError | ConflictError
+      >(new NotFoundError()).catchTags(handlers);
+      const result2 = Err<NotFoundError | ConflictError>(
+        new ConflictError()
+      ).catchTags(handlers);
+      const result3: Result<string, ConflictError | AnotherError> = Err<
+        NotFoundError | ConflictError | AnotherError
+      >(new AnotherError()).catchTags({ NotFound: (e) => e.message });
+
+      assert.deepStrictEqual(result, Ok(404));
+      assert.deepStrictEqual(result2, Err(new CustomError()));
+      assert.deepStrictEqual(result3, Err(new AnotherError()));
+      assert.strictEqual(handlers.NotFound.mock.callCount(), 1);
+      assert.strictEqual(handlers.Conflict.mock.callCount(), 1);
+    });
+
+    it("should not call inherited properties of the handlers object", () => {
+      class ToStringError extends Error {
+        readonly _tag = "toString";
+      }
+      const result = Err<ToStringError | NotFoundError>(
+        new ToStringError()
+      ).catchTags({ NotFound: () => 1 });
+
+      assert.deepStrictEqual(result, Err(new ToStringError()));
+    });
+
+    it("is a type error to give a handler for a tag that no error type has", () => {
+      Err<NotFoundError | ConflictError>(new ConflictError()).catchTags({
+        NotFound: () => 1,
+        // @ts-expect-error
+        Bogus: () => 1,
+      });
+    });
+
+    it("should require every tag to be handled in the exhaustive variant", () => {
+      const result: Result<number, never> = Err<NotFoundError | ConflictError>(
+        new ConflictError()
+      ).catchTagsExhaustive({ NotFound: () => 404, Conflict: () => 409 });
+
+      assert.deepStrictEqual(result, Ok(409));
+
+      Err<NotFoundError | ConflictError>(
+        new ConflictError()
+        // @ts-expect-error
+      ).catchTagsExhaustive({ NotFound: () => 404 });
+    });
+  });
+
   describe("finally_", () => {
     it("should always call the callback function and return an equivalent result if it doesn't produce an error", () => {
       const finally1 = mock.fn(() => Ok(84) as any);
@@ -252,6 +651,103 @@ describe("Result", () => {
     });
   });
 
+  describe("map and mapErr", () => {
+    it("should transform only the matching side, without unwrapping", () => {
+      const error = new CustomError();
+      const nested: Result<Result<number, never>, never> = Ok(1).map((it) =>
+        Ok(it + 1)
+      );
+      const mapped: Result<number, string> = Err(error).mapErr((it) => it.name);
+
+      assert.deepStrictEqual(nested, Ok(Ok(2)));
+      assert.deepStrictEqual(
+        Err(error).map((it: number) => it + 1),
+        Err(error)
+      );
+      assert.deepStrictEqual(mapped.data, {
+        isOk: false,
+        value: "CustomError",
+      });
+      assert.deepStrictEqual(
+        Ok(1).mapErr(() => "unused"),
+        Ok(1)
+      );
+    });
+  });
+
+  describe("flatMap and orElse", () => {
+    it("should replace the matching side with the returned Result", () => {
+      const error = new CustomError();
+      const anotherError = new AnotherError();
+      const flatMapped: Result<string, CustomError | AnotherError> = (
+        Ok(1) as Result<number, CustomError>
+      ).flatMap((it) => (it > 0 ? Ok(String(it)) : Err(anotherError)));
+      const orElsed: Result<number, AnotherError> = (
+        Err(error) as Result<number, CustomError>
+      ).orElse(() => Err(anotherError));
+
+      assert.deepStrictEqual(flatMapped, Ok("1"));
+      assert.deepStrictEqual(
+        Err(error).flatMap(() => Ok(1)),
+        Err(error)
+      );
+      assert.deepStrictEqual(orElsed, Err(anotherError));
+      assert.deepStrictEqual(
+        Ok(1).orElse(() => Ok(2)),
+        Ok(1)
+      );
+    });
+  });
+
+  describe("tap and tapErr", () => {
+    it("should call the matching callback and return the Result as-is", () => {
+      const onOk = mock.fn((_it: number) => "ignored");
+      const onErr = mock.fn((_it: CustomError) => "ignored");
+      const ok = Ok(1) as Result<number, CustomError>;
+      const err = Err(new CustomError()) as Result<number, CustomError>;
+
+      assert.strictEqual(ok.tap(onOk).tapErr(onErr), ok);
+      assert.strictEqual(err.tap(onOk).tapErr(onErr), err);
+      assert.deepStrictEqual(onOk.mock.calls[0]?.arguments, [1]);
+      assert.deepStrictEqual(onErr.mock.calls[0]?.arguments, [err.data.value]);
+      assert.strictEqual(onOk.mock.callCount(), 1);
+      assert.strictEqual(onErr.mock.callCount(), 1);
+    });
+  });
+
+  describe("flatten", () => {
+    it("should unwrap one level of nesting", () => {
+      const error = new CustomError();
+      const flattened: Result<number, CustomError | AnotherError> = (
+        Ok(Err(error)) as Result<Result<number, CustomError>, AnotherError>
+      ).flatten();
+
+      assert.deepStrictEqual(flattened, Err(error));
+      assert.deepStrictEqual(Ok(Ok(1)).flatten(), Ok(1));
+
+      function _typeTest() {
+        // @ts-expect-error the value isn't a Result.
+        Ok(1).flatten();
+      }
+    });
+  });
+
+  describe("zip and zipWith", () => {
+    it("should combine two Results, preferring the first Err", () => {
+      const error = new CustomError();
+      const anotherError = new AnotherError();
+      const zipped: Result<[number, string], never> = Ok(1).zip(Ok("a"));
+
+      assert.deepStrictEqual(zipped, Ok([1, "a"]));
+      assert.deepStrictEqual(Err(error).zip(Err(anotherError)), Err(error));
+      assert.deepStrictEqual(Ok(1).zip(Err(anotherError)), Err(anotherError));
+      assert.deepStrictEqual(
+        Ok(2).zipWith(Ok(3), (a, b) => a * b),
+        Ok(6)
+      );
+    });
+  });
+
   describe("Result.all", () => {
     it("should return an Ok with an array of values if all results are Ok", () => {
       const result = Result.all([Ok(1), Ok(2), Ok(3)]);
@@ -275,12 +771,272 @@ describe("Result", () => {
     it("should return an Err with an AggregateError if all results are not Ok", async () => {
       const error = new Error("Something went wrong");
       const error2 = new Error("hi");
-      const result = Result.any([Err(error), Err(error2)]);
+      const result: Result<never, AggregateError & { errors: Error[] }> =
+        Result.any([Err(error), Err(error2)]);
 
       assert.deepStrictEqual(result, Err(new AggregateError([error, error2])));
     });
   });
 
+  describe("Result.allObject", () => {
+    it("should return an Ok with an object of the values if every result is Ok", () => {
+      const result: Result<{ user: string; org: number }, CustomError> =
+        Result.allObject({
+          user: Ok("ethan") as Result<string, CustomError>,
+          org: Ok(1),
+        });
+
+      assert.deepStrictEqual(result, Ok({ user: "ethan", org: 1 }));
+    });
+
+    it("should return the first Err if any result is an Err", () => {
+      const error = new CustomError("1");
+      const result = Result.allObject({
+        user: Ok("ethan"),
+        org: Err(error),
+        team: Err(new AnotherError("2")),
+      });
+
+      assert.deepStrictEqual(result, Err(error));
+    });
+  });
+
+  describe("Result.traverse", () => {
+    it("should collect the Ok values from any iterable", () => {
+      const double = (it: number) => Ok(it * 2);
+
+      assert.deepStrictEqual(Result.traverse([1, 2], double), Ok([2, 4]));
+      assert.deepStrictEqual(
+        Result.traverse(new Set([1, 2]), double),
+        Ok([2, 4])
+      );
+      assert.deepStrictEqual(
+        Result.traverse(new Map([["a", 1]]), ([key, it], i) =>
+          Ok(`${key}${it}${i}`)
+        ),
+        Ok(["a10"])
+      );
+    });
+
+    it("should stop at the first Err and report its index", () => {
+      const fn = mock.fn((it: number) =>
+        it > 1 ? Err(new CustomError(String(it))) : Ok(it)
+      );
+      function* items() {
+        yield* [1, 2, 3];
+      }
+
+      const result: Result<number[], ItemError<CustomError>> = Result.traverse(
+        items(),
+        fn
+      );
+      const error = result.valueOrFallback((it) => it);
+
+      assert.ok(error instanceof ItemError);
+      assert.strictEqual(error.index, 1);
+      assert.deepStrictEqual(error.cause, new CustomError("2"));
+      assert.strictEqual(error.key, undefined);
+      assert.strictEqual(fn.mock.callCount(), 2);
+    });
+
+    it("should report the key of the Map entry that failed", () => {
+      const prices = new Map([
+        ["apple", 1],
+        ["pear", -1],
+      ]);
+      const result: Result<
+        number[],
+        ItemError<CustomError, string>
+      > = Result.traverse(prices, ([, price]) =>
+        price < 0 ? Err(new CustomError()) : Ok(price)
+      );
+      const error = result.valueOrFallback((it) => it);
+
+      assert.ok(error instanceof ItemError);
+      assert.strictEqual(error.index, 1);
+      assert.strictEqual(error.key, "pear");
+      assert.strictEqual(error.message, "Item 1 (key pear) failed");
+    });
+  });
+
+  describe("Result.allErrors", () => {
+    it("should return an Ok with all the values if every result is Ok", () => {
+      const result: Result<
+        [number, string],
+        NonEmptyArray<CustomError>
+      > = Result.allErrors([Ok(1), Ok("2") as Result<string, CustomError>]);
+
+      assert.deepStrictEqual(result, Ok([1, "2"]));
+    });
+
+    it("should return an Err with every error, in order, if any result is an Err", () => {
+      const error = new CustomError("1");
+      const error2 = new AnotherError("2");
+      const result = Result.allErrors([Err(error), Ok(1), Err(error2)]);
+
+      assert.deepStrictEqual(
+        result.valueOrFallback((it) => it),
+        [error, error2]
+      );
+    });
+  });
+
+  describe("Result.validate", () => {
+    it("should build an object from the values if every result is Ok", () => {
+      const result = Result.validate({
+        port: Ok(8080),
+        host: Ok("localhost"),
+      });
+
+      assert.deepStrictEqual(result, Ok({ port: 8080, host: "localhost" }));
+    });
+
+    it("should report the error of every failing result by its key", () => {
+      const portError = new CustomError("Bad port");
+      const result: Result<
+        { port: number; host: string; debug: boolean },
+        { port?: CustomError; host?: AnotherError; debug?: never }
+      > = Result.validate({
+        port: Err(portError) as Result<number, CustomError>,
+        host: Ok("localhost") as Result<string, AnotherError>,
+        debug: Ok(true),
+      });
+
+      assert.deepStrictEqual(
+        result.valueOrFallback((it) => it),
+        { port: portError }
+      );
+    });
+  });
+
+  describe("Result.partition", () => {
+    it("should split the results into Ok values and errors, in order", () => {
+      const error = new CustomError("1");
+      const error2 = new AnotherError("2");
+      const [oks, errs]: [number[], (CustomError | AnotherError)[]] =
+        Result.partition([Ok(1), Err(error), Ok(2), Err(error2)]);
+
+      assert.deepStrictEqual(oks, [1, 2]);
+      assert.deepStrictEqual(errs, [error, error2]);
+    });
+  });
+
+  describe("Result.try", () => {
+    it("should return an Ok with the function's return value", () => {
+      const mapError = mock.fn((e: unknown) => new CustomError(String(e)));
+      assert.deepStrictEqual(
+        Result.try(() => 42, mapError),
+        Ok(42)
+      );
+      assert.strictEqual(mapError.mock.callCount(), 0);
+    });
+
+    it("should use a returned Result as-is", () => {
+      const err = new AnotherError("hi");
+      const mapError = (_e: unknown) => new CustomError();
+      const result: Result<number, CustomError | AnotherError> = Result.try(
+        () => (Math.random() > 2 ? Ok(42) : Err(err)),
+        mapError
+      );
+
+      assert.deepStrictEqual(result, Err(err));
+    });
+
+    it("should map thrown values into an Err", () => {
+      const thrown = new Error("boom");
+      const mapError = mock.fn((e: unknown) => new CustomError("wrapped"));
+      const result = Result.try(() => {
+        throw thrown;
+      }, mapError);
+
+      assert.deepStrictEqual(result, Err(new CustomError("wrapped")));
+      assert.strictEqual(mapError.mock.callCount(), 1);
+      assert.strictEqual(mapError.mock.calls[0]?.arguments[0], thrown);
+    });
+
+    it("should require a mapper", () => {
+      // @ts-expect-error
+      Result.try(() => 42);
+    });
+  });
+
+  describe("Result.fromThrowable", () => {
+    it("should return a function that returns a Result", () => {
+      const parse = Result.fromThrowable(
+        (json: string, _reviver?: (k: string, v: unknown) => unknown) =>
+          JSON.parse(json) as unknown,
+        () => new CustomError("Invalid JSON")
+      );
+
+      assert.deepStrictEqual(parse('{"a":1}'), Ok({ a: 1 }));
+      assert.deepStrictEqual(parse("{"), Err(new CustomError("Invalid JSON")));
+
+      // @ts-expect-error
+      parse(42);
+    });
+
+    it("should preserve `this`", () => {
+      const obj = {
+        value: 42,
+        get: Result.fromThrowable(
+          function (this: { value: number }) {
+            return this.value;
+          },
+          () => new CustomError()
+        ),
+      };
+
+      assert.deepStrictEqual(obj.get(), Ok(42));
+    });
+  });
+
+  describe("Result.fromNullable", () => {
+    it("should return an Ok for non-nullish values, and an Err otherwise", () => {
+      const value = 0 as number | null | undefined;
+      const result: Result<number, CustomError> = Result.fromNullable(
+        value,
+        () => new CustomError("missing")
+      );
+
+      assert.deepStrictEqual(result, Ok(0));
+      assert.deepStrictEqual(
+        Result.fromNullable(null, () => new CustomError("missing")),
+        Err(new CustomError("missing"))
+      );
+      assert.deepStrictEqual(
+        Result.fromNullable(undefined, () => new CustomError("missing")),
+        Err(new CustomError("missing"))
+      );
+    });
+  });
+
+  describe("Result.fromPredicate", () => {
+    it("should return an Ok if the predicate passes, and an Err otherwise", () => {
+      const getError = mock.fn((v: number) => new CustomError(`bad: ${v}`));
+
+      assert.deepStrictEqual(
+        Result.fromPredicate(2, (v) => v % 2 === 0, getError),
+        Ok(2)
+      );
+      assert.deepStrictEqual(
+        Result.fromPredicate(3, (v) => v % 2 === 0, getError),
+        Err(new CustomError("bad: 3"))
+      );
+      assert.strictEqual(getError.mock.callCount(), 1);
+    });
+
+    it("should narrow the Ok type when given a type guard", () => {
+      const value = "hello" as string | number;
+      const result: Result<string, CustomError> = Result.fromPredicate(
+        value,
+        (v): v is string => typeof v === "string",
+        () => new CustomError()
+      );
+
+      assert.deepStrictEqual(result, Ok("hello"));
+    });
+  });
+
   describe("Result.compose", () => {
     it("should compose all the functions with then_", () => {
       const fn1 = (x: number) => Ok("hello".repeat(x));
@@ -292,6 +1048,117 @@ describe("Result", () => {
       assert.deepStrictEqual(Ok(2).then_(composed), Ok(10));
       assert.deepStrictEqual(Ok("Hello!").then_(composed2), Err(new Error()));
     });
+
+    it("should keep the error types of every function", () => {
+      const parse = (x: string) =>
+        x === "" ? Err(new CustomError()) : Ok(Number(x));
+      const check = (x: number) => (x > 0 ? Ok(x) : Err(new Error()));
+      const double = (x: number) => Ok(x * 2);
+
+      const composed: (v: string) => Result<number, CustomError | Error> =
+        Result.compose(parse, check, double);
+      const composedLong: (v: string) => Result<number, CustomError | Error> =
+        Result.compose(
+          parse,
+          check,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double
+        );
+
+      assert.deepStrictEqual(composed("2"), Ok(4));
+      assert.deepStrictEqual(composedLong("1"), Ok(1024));
+      assert.deepStrictEqual(composedLong(""), Err(new CustomError()));
+
+      function _typeTest() {
+        Result.compose(
+          double,
+          (x) => Ok(String(x)),
+          // @ts-expect-error check takes a number, not a string.
+          (x) => check(x)
+        );
+      }
+    });
+
+    it("should infer the functions' types in long compositions", () => {
+      const composed: (v: string) => Result<string, CustomError> =
+        Result.compose(
+          (v: string) => (v === "" ? Err(new CustomError()) : Ok(Number(v))),
+          (x) => Ok(x + 1),
+          (x) => Ok(x * 2),
+          (x) => Ok(x + 1),
+          (x) => Ok(x + 1),
+          (x) => Ok(x + 1),
+          (x) => Ok(x * 2),
+          (x) => Ok(x + 1),
+          (x) => Ok(x + 1),
+          (x) => Ok(String(x))
+        );
+
+      assert.deepStrictEqual(composed("1"), Ok("16"));
+      assert.deepStrictEqual(composed(""), Err(new CustomError()));
+    });
+
+    it("should check compositions of more than 16 functions", () => {
+      const parse = (x: string) =>
+        x === "" ? Err(new CustomError()) : Ok(Number(x));
+      const double = (x: number) => Ok(x * 2);
+
+      const composed: (v: string) => Result<number, CustomError> =
+        Result.compose(
+          parse,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double
+        );
+      assert.deepStrictEqual(composed("1"), Ok(131072));
+      assert.deepStrictEqual(composed(""), Err(new CustomError()));
+
+      function _typeTest() {
+        Result.compose(
+          parse,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          // @ts-expect-error the functions must return Results.
+          String,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double,
+          double
+        );
+      }
+    });
   });
 
   describe("Result.run", () => {
@@ -386,6 +1253,166 @@ describe("Result", () => {
       assert.strictEqual(finallyRan3, true);
     });
   });
+
+  describe("Result.fn", () => {
+    it("should run the generator with the function's arguments and `this`", () => {
+      const parse = Result.fn(function* (input: string, radix: number = 10) {
+        const digits = yield* input === ""
+          ? Fail("EMPTY")
+          : Ok(input.replace(/^0+/, ""));
+        const n = Number.parseInt(digits, radix);
+        if (Number.isNaN(n)) {
+          return yield* Err(new CustomError(`Not a number: ${input}`));
+        }
+        return n;
+      });
+
+      const _typed: (
+        input: string,
+        radix?: number
+      ) => Result<number, "EMPTY" | CustomError> = parse;
+      assert.deepStrictEqual(parse("012"), Ok(12));
+      assert.deepStrictEqual(parse("ff", 16), Ok(255));
+      assert.deepStrictEqual(parse(""), Fail("EMPTY"));
+      assert.deepStrictEqual(
+        parse("x"),
+        Err(new CustomError("Not a number: x"))
+      );
+
+      const counter = {
+        count: 2,
+        add: Result.fn(function* (this: { count: number }, n: number) {
+          this.count += yield* Ok(n);
+          return this.count;
+        }),
+      };
+      assert.deepStrictEqual(counter.add(3), Ok(5));
+      assert.strictEqual(counter.count, 5);
+
+      function _typeTest() {
+        // @ts-expect-error the arguments are typed.
+        parse(12);
+        // @ts-expect-error `add` needs a `this` with a count.
+        (0, counter.add)(1);
+      }
+    });
+
+    it("should name the function after the generator, or the given name", () => {
+      const named = Result.fn(function* loadUser() {
+        return yield* Ok(1);
+      });
+      const labelled = Result.fn(
+        function* () {
+          return yield* Ok(1);
+        },
+        { name: "users.load" }
+      );
+
+      assert.strictEqual(named.name, "loadUser");
+      assert.strictEqual(labelled.name, "users.load");
+    });
+  });
+
+  describe("Result.defer", () => {
+    it("should run finalizers in LIFO order after the generator returns", () => {
+      const calls: string[] = [];
+      const result = Result.run(function* () {
+        yield* Result.defer(() => {
+          calls.push("first");
+        });
+        const x = yield* Ok(42);
+        yield* Result.defer(() => {
+          calls.push("second");
+        });
+        calls.push("body");
+        return x;
+      });
+
+      assert.deepStrictEqual(result, Ok(42));
+      assert.deepStrictEqual(calls, ["body", "second", "first"]);
+    });
+
+    it("should run finalizers when the generator yields an Err or throws", () => {
+      const err = new CustomError("Failed");
+      const hiErr = new Error("Hi");
+      const finalizer = mock.fn(() => {});
+      const finalizer2 = mock.fn(() => {});
+
+      const result = Result.run(function* () {
+        yield* Result.defer(finalizer);
+        yield* Err(err);
+        return 42;
+      });
+
+      assert.throws(
+        () =>
+          Result.run(function* () {
+            yield* Result.defer(finalizer2);
+            throw hiErr;
+          }),
+        hiErr
+      );
+
+      assert.deepStrictEqual(result, Err(err));
+      assert.strictEqual(finalizer.mock.callCount(), 1);
+      assert.strictEqual(finalizer2.mock.callCount(), 1);
+    });
+
+    it("should surface a finalizer's Err, combining it with the run's Err", () => {
+      const err = new CustomError("Failed");
+      const releaseErr = new AnotherError("Release failed");
+
+      const result: Result<number, AnotherError | AggregateError> = Result.run(
+        function* () {
+          yield* Result.defer(() => Err(releaseErr));
+          return 42;
+        }
+      );
+
+      const result2 = Result.run(function* () {
+        yield* Result.defer(() => Err(releaseErr));
+        yield* Err(err);
+      });
+
+      assert.deepStrictEqual(result, Err(releaseErr));
+      assert.deepStrictEqual(
+        result2.valueOrFallback((e) => e),
+        new AggregateError([err, releaseErr])
+      );
+    });
+
+    it("should run every finalizer, even if one throws", () => {
+      const hiErr = new Error("Hi");
+      const finalizer = mock.fn(() => {});
+
+      assert.throws(
+        () =>
+          Result.run(function* () {
+            yield* Result.defer(finalizer);
+            yield* Result.defer(() => {
+              throw hiErr;
+            });
+            return 42;
+          }),
+        hiErr
+      );
+      assert.strictEqual(finalizer.mock.callCount(), 1);
+    });
+  });
+
+  describe("Result.run with `using`", () => {
+    it("should dispose resources when the generator yields an Err", () => {
+      const dispose = mock.fn(() => {});
+      const result = Result.run(function* () {
+        using _resource = yield* Ok({ [Symbol.dispose]: dispose });
+        yield* Err(new CustomError());
+        return 42;
+      });
+
+      assert.deepStrictEqual(result, Err(new CustomError()));
+      assert.strictEqual(dispose.mock.callCount(), 1);
+    });
+  });
 });
 
 describe("thenChain", () => {
@@ -484,4 +1511,103 @@ describe("thenChain", () => {
     Ok(1).thenChain(cb1, cb2, cb3);
     assert.deepStrictEqual(historySnapshots, [[], [1], [1, 2]]);
   });
+
+  it("should infer the callbacks' types in long chains", () => {
+    const result: Result<string, CustomError> = Ok(1).thenChain(
+      (x) => x + 1,
+      (x) => x + 1,
+      (x) => String(x),
+      (x) => (x === "" ? Err(new CustomError()) : Ok(Number(x))),
+      (x) => x * 2,
+      (x) => x + 1,
+      (x) => x + 1,
+      (x) => x + 1,
+      (x) => String(x),
+      (x, history) => `${history[0].toFixed()} -> ${x}`
+    );
+    assert.deepStrictEqual(result, Ok("1 -> 9"));
+  });
+
+  it("should report a type error at the callback that doesn't fit", () => {
+    const inc = (x: number) => x + 1;
+
+    function _typeTest() {
+      Ok(1).thenChain(
+        (x) => x + 1,
+        (x) => x + 1,
+        (x) => x + 1,
+        (x) => x + 1,
+        (x) => x + 1,
+        (x) => x + 1,
+        (x) => x + 1,
+        (x) => String(x),
+        // @ts-expect-error the callback before this one returns a string.
+        (x) => x.toFixed()
+      );
+      Ok(1).thenChain(
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        // @ts-expect-error the callback after this one takes a number.
+        String,
+        inc
+      );
+    }
+  });
+
+  it("should check chains of more than 16 callbacks", () => {
+    const inc = (x: number) => x + 1;
+    const toStr = (x: number) => String(x);
+    const toNum = (x: string) =>
+      x === "" ? Err(new CustomError()) : Ok(Number(x));
+
+    const result: Result<string, CustomError> = Ok(1).thenChain(
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      toStr,
+      toNum,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      (x: number, history: unknown[]) => `${history.length}: ${x}`
+    );
+    assert.deepStrictEqual(result, Ok("17: 16"));
+
+    function _typeTest() {
+      Ok(1).thenChain(
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        toStr,
+        // @ts-expect-error the callback before this one returns a string.
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc
+      );
+    }
+  });
 });
@@ -1,4 +1,19 @@
-import type { NonEmptyArray, UnionToIntersection } from "./utils.js";
+import { AsyncResult, type ResultPromisable } from "./AsyncResult.js";
+import {
+  ContextError,
+  underlyingError,
+  type ExcludeUnderlying,
+  type UnderlyingError,
+} from "./ContextError.js";
+import { itemError, type ItemError } from "./ItemError.js";
+import type { Operator } from "./operators.js";
+import { ResultError } from "./ResultError.js";
+import {
+  withName,
+  type AnyFunction,
+  type NonEmptyArray,
+  type UnionToIntersection,
+} from "./utils.js";
 
 /**
  * @fileoverview This file defines a `Result` type, which can be used to make
@@ -16,6 +31,8 @@ import type { NonEmptyArray, UnionToIntersection } from "./utils.js";
  *    found in a strict monadic implementation. This is definitely more familiar
  *    and arguably simpler, so we follow it in `Result`. For the same reason,
  *    more esoteric functional programming methods like `bimap` are omitted.
+ *    (The strict `map`, `flatMap`, etc. are available too, for those who want
+ *    them, but nothing requires learning them.)
  *
  * 2. **Adapt to the particular nature of JS/TS**. The type signatures of
  *    `then_` and `catch_` have been adapted (by allowing the second type
@@ -29,9 +46,27 @@ import type { NonEmptyArray, UnionToIntersection } from "./utils.js";
  */
 
 export type Result<T, E> = _Result<T, E>;
+
 export type Ok<T> = Result<T, never>;
 export type Err<E> = Result<never, E>;
 
+/**
+ * A Result that's known to be an Ok, so its `value` is known to be set. See
+ * `_Result.isOk`.
+ *
+ * NB: this is separate from `Ok<T>`, which is what the `Ok()` constructor
+ * returns, because returning this narrower type would confuse inference
+ * wherever a callback can return either a Result or a plain value (e.g., in
+ * `then_`).
+ */
+export type OkResult<T> = Ok<T> & { readonly value: T };
+
+/**
+ * A Result that's known to be an Err, so its `error` is known to be set. See
+ * `_Result.isErr`.
+ */
+export type ErrResult<E> = Err<E> & { readonly error: E };
+
 type ResultData<T, E> = { isOk: true; value: T } | { isOk: false; value: E };
 
 /**
@@ -44,6 +79,8 @@ type ResultData<T, E> = { isOk: true; value: T } | { isOk: false; value: E };
  *   constructing an `Ok`). However, the `Err()` constructor exported from this
  *   file _does_ constrain its argument to be an `Error`, which feels like a
  *   nice sanity check given that these values can get thrown by `valueOrThrow`.
+ *   Other error values (e.g., error codes) can be used with `Fail()`, and are
+ *   wrapped in a `ResultError` if they're thrown.
  *
  * - Some implementations of Result in TS use a separate class for Err and Ok,
  *   with `Result<T, E>` defined as `Ok<T> | Err<E>`. Both `Err` and `Ok` then
@@ -52,11 +89,36 @@ type ResultData<T, E> = { isOk: true; value: T } | { isOk: false; value: E };
  *   an Ok or Err. This seemed to confuse type inference and some assignability
  *   checks in certain use cases, though, so we use a single class for both Ok
  *   and Err, and then allow consumers to narrow by checking `result.data.isOk`,
- *   which discriminates the type of `result.data.value`.
+ *   which discriminates the type of `result.data.value`, or by calling
+ *   `isOk()`/`isErr()`, which narrow the Result itself to an `Ok`/`Err`.
  */
 export class _Result<T, E> {
   constructor(public readonly data: ResultData<T, E>) {}
 
+  /**
+   * The Ok value, or undefined if the Result is an Err. Once the Result has
+   * been narrowed with `isOk()`, this is typed as just `T`.
+   */
+  get value(): T | undefined {
+    return this.data.isOk ? this.data.value : undefined;
+  }
+
+  /**
+   * The Err's error, or undefined if the Result is an Ok. Once the Result has
+   * been narrowed with `isErr()`, this is typed as just `E`.
+   */
+  get error(): E | undefined {
+    return this.data.isOk ? undefined : this.data.value;
+  }
+
+  isOk(): this is OkResult<T> {
+    return this.data.isOk;
+  }
+
+  isErr(): this is ErrResult<E> {
+    return !this.data.isOk;
+  }
+
   /**
    * See {@link Result.run}.
    *
@@ -74,18 +136,116 @@ export class _Result<T, E> {
     return yield self;
   }
 
+  /**
+   * Lets Results be used with `yield*` in the async generators given to
+   * `AsyncResult.run`. Works just like `[Symbol.iterator]`.
+   *
+   * @internal
+   */
+  [Symbol.asyncIterator](): AsyncIterator<Result<T, E>, T, any> {
+    return toAsyncIterator(
+      this[Symbol.iterator]() as Generator<Result<T, E>, T, any>
+    );
+  }
+
   valueOrFallback<U>(getFallback: (e: E) => U): T | U {
     return this.data.isOk ? this.data.value : getFallback(this.data.value);
   }
 
+  /**
+   * Returns the Ok value, or throws the Err's error. If the error isn't an
+   * `Error` (see `Fail()`), it's wrapped in a `ResultError` first.
+   */
   valueOrThrow(): T {
     if (this.data.isOk) {
       return this.data.value;
     } else {
-      throw this.data.value;
+      const error = this.data.value;
+      throw error instanceof Error ? error : new ResultError(error);
+    }
+  }
+
+  /**
+   * Like `valueOrThrow`, but if the Result is an Err, throws a `ContextError`
+   * with the given message (e.g., "config should have been validated"), with
+   * the Err's error as its `cause`.
+   */
+  expect(message: string): T {
+    if (this.data.isOk) {
+      return this.data.value;
+    } else {
+      throw new ContextError(message, this.data.value);
+    }
+  }
+
+  /**
+   * Returns the Ok value, or `fallback` if the Result is an Err.
+   */
+  unwrapOr<U>(fallback: U): T | U {
+    return this.data.isOk ? this.data.value : fallback;
+  }
+
+  /**
+   * Returns the Err's error, or throws if the Result is an Ok.
+   */
+  unwrapErr(): E {
+    if (this.data.isOk) {
+      throw new Error("Called unwrapErr() on an Ok");
+    } else {
+      return this.data.value;
     }
   }
 
+  /**
+   * Returns the Ok value, or undefined if the Result is an Err.
+   */
+  ok(): T | undefined {
+    return this.data.isOk ? this.data.value : undefined;
+  }
+
+  /**
+   * Returns the Err's error, or undefined if the Result is an Ok.
+   */
+  err(): E | undefined {
+    return this.data.isOk ? undefined : this.data.value;
+  }
+
+  /**
+   * Returns whether the Result is an Ok whose value satisfies `predicate`.
+   */
+  isOkAnd(predicate: (value: T) => boolean): boolean {
+    return this.data.isOk && predicate(this.data.value);
+  }
+
+  /**
+   * Returns whether the Result is an Err whose error satisfies `predicate`.
+   */
+  isErrAnd(predicate: (error: E) => boolean): boolean {
+    return !this.data.isOk && predicate(this.data.value);
+  }
+
+  /**
+   * Turns a Result holding an AsyncResult inside out, into an AsyncResult that
+   * has the errors of both.
+   */
+  transpose<T2, E2>(
+    this: Result<AsyncResult<T2, E2>, E>
+  ): AsyncResult<T2, E | E2> {
+    return AsyncResult(this).flatten();
+  }
+
+  /**
+   * Exhaustively handles both cases of the Result, by calling the `ok` arm
+   * with the value if the Result is an Ok, or the `err` arm with the error if
+   * it's an Err. Returns whatever the called arm returns. Unlike `then_` and
+   * `catch_`, nothing is wrapped in a Result.
+   */
+  match<U, V>(arms: { ok: (value: T) => U; err: (error: E) => V }): U | V {
+    return this.data.isOk
+      ? arms.ok(this.data.value)
+      : arms.err(this.data.value);
+  }
+
   /**
    * Supports chaining together Result-returning functions. This is very
    * analogous to Promise.prototype.then().
@@ -107,87 +267,81 @@ export class _Result<T, E> {
       : toResult(this satisfies Result<T, E> as unknown as Result<T2, E>);
   }
 
-  thenChain<T2, E2 = never>(
-    cb1: (arg: T, history: []) => T2 | Result<T2, E2>
-  ): Result<T2, E | E2>;
-  thenChain<T2, T3, E2 = never, E3 = never>(
-    cb1: (arg: T, history: []) => T2 | Result<T2, E2>,
-    cb2: (arg: T2, history: [T]) => T3 | Result<T3, E3>
-  ): Result<T3, E | E2 | E3>;
-  thenChain<T2, T3, T4, E2 = never, E3 = never, E4 = never>(
-    cb1: (arg: T, history: []) => T2 | Result<T2, E2>,
-    cb2: (arg: T2, history: [T]) => T3 | Result<T3, E3>,
-    cb3: (arg: T3, history: [T, T2]) => T4 | Result<T4, E4>
-  ): Result<T4, E | E2 | E3 | E4>;
-  thenChain<T2, T3, T4, T5, E2 = never, E3 = never, E4 = never, E5 = never>(
-    cb1: (arg: T, history: []) => T2 | Result<T2, E2>,
-    cb2: (arg: T2, history: [T]) => T3 | Result<T3, E3>,
-    cb3: (arg: T3, history: [T, T2]) => T4 | Result<T4, E4>,
-    cb4: (arg: T4, history: [T, T2, T3]) => T5 | Result<T5, E5>
-  ): Result<T5, E | E2 | E3 | E4 | E5>;
-  thenChain<
-    T2,
-    T3,
-    T4,
-    T5,
-    T6,
-    E2 = never,
-    E3 = never,
-    E4 = never,
-    E5 = never,
-    E6 = never
-  >(
-    cb1: (arg: T, history: []) => T2 | Result<T2, E2>,
-    cb2: (arg: T2, history: [T]) => T3 | Result<T3, E3>,
-    cb3: (arg: T3, history: [T, T2]) => T4 | Result<T4, E4>,
-    cb4: (arg: T4, history: [T, T2, T3]) => T5 | Result<T5, E5>,
-    cb5: (arg: T5, history: [T, T2, T3, T4]) => T6 | Result<T6, E6>
-  ): Result<T6, E | E2 | E3 | E4 | E5 | E6>;
-  thenChain<
-    T2,
-    T3,
-    T4,
-    T5,
-    T6,
-    T7,
-    E2 = never,
-    E3 = never,
-    E4 = never,
-    E5 = never,
-    E6 = never,
-    E7 = never
-  >(
-    cb1: (arg: T, history: []) => T2 | Result<T2, E2>,
-    cb2: (arg: T2, history: [T]) => T3 | Result<T3, E3>,
-    cb3: (arg: T3, history: [T, T2]) => T4 | Result<T4, E4>,
-    cb4: (arg: T4, history: [T, T2, T3]) => T5 | Result<T5, E5>,
-    cb5: (arg: T5, history: [T, T2, T3, T4]) => T6 | Result<T6, E6>,
-    cb6: (arg: T6, history: [T, T2, T3, T4, T5]) => T7 | Result<T7, E7>
-  ): Result<T7, E | E2 | E3 | E4 | E5 | E6 | E7>;
+  /**
+   * Runs the callbacks in sequence, like chained calls to `then_`, but also
+   * passes each callback the values produced before it (starting with this
+   * Result's value) as `history`. Stops at the first Err.
+   *
+   * In chains of up to 16 callbacks, each callback's parameter types are
+   * inferred from the callbacks before it. Longer chains are checked the same
+   * way, step by step, but their callbacks must annotate their parameters.
+   */
   thenChain<
-    T2,
-    T3,
-    T4,
-    T5,
-    T6,
-    T7,
-    T8,
+    T2 = NoStep,
+    T3 = NoStep,
+    T4 = NoStep,
+    T5 = NoStep,
+    T6 = NoStep,
+    T7 = NoStep,
+    T8 = NoStep,
+    T9 = NoStep,
+    T10 = NoStep,
+    T11 = NoStep,
+    T12 = NoStep,
+    T13 = NoStep,
+    T14 = NoStep,
+    T15 = NoStep,
+    T16 = NoStep,
+    T17 = NoStep,
     E2 = never,
     E3 = never,
     E4 = never,
     E5 = never,
     E6 = never,
     E7 = never,
-    E8 = never
+    E8 = never,
+    E9 = never,
+    E10 = never,
+    E11 = never,
+    E12 = never,
+    E13 = never,
+    E14 = never,
+    E15 = never,
+    E16 = never,
+    E17 = never
   >(
-    cb1: (arg: T, history: []) => T2 | Result<T2, E2>,
-    cb2: (arg: T2, history: [T]) => T3 | Result<T3, E3>,
-    cb3: (arg: T3, history: [T, T2]) => T4 | Result<T4, E4>,
-    cb4: (arg: T4, history: [T, T2, T3]) => T5 | Result<T5, E5>,
-    cb5: (arg: T5, history: [T, T2, T3, T4]) => T6 | Result<T6, E6>,
-    cb6: (arg: T6, history: [T, T2, T3, T4, T5]) => T7 | Result<T7, E7>,
-    cb7: (arg: T7, history: [T, T2, T3, T4, T5, T6]) => T8 | Result<T8, E8>
-  ): Result<T8, E | E2 | E3 | E4 | E5 | E6 | E7 | E8>;
+    ...cbs: ChainCallbacks<
+      T,
+      [T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13, T14, T15, T16, T17],
+      [E2, E3, E4, E5, E6, E7, E8, E9, E10, E11, E12, E13, E14, E15, E16, E17],
+      false
+    >
+  ): Result<
+    ChainOkType<
+      T,
+      [T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13, T14, T15, T16, T17]
+    >,
+    | E
+    | E2
+    | E3
+    | E4
+    | E5
+    | E6
+    | E7
+    | E8
+    | E9
+    | E10
+    | E11
+    | E12
+    | E13
+    | E14
+    | E15
+    | E16
+    | E17
+  >;
+  thenChain<Cbs extends LongChain>(
+    ...cbs: LongChainCallbacks<T, Cbs, false>
+  ): Result<LongChainOkType<Cbs, false>, E | LongChainErrType<Cbs, false>>;
   thenChain(...cbs: ((arg: any, history: any) => any)[]): Result<any, any> {
     const history: any[] = [];
     return cbs.reduce<Result<any, any>>((result, cb) => {
@@ -234,7 +388,7 @@ export class _Result<T, E> {
    * structurally identical, but that's TS.
    */
   catchInstanceOf<ToCatch extends E, T2, E2 = never>(
-    type: { new (): UnionToIntersection<ToCatch> },
+    type: { new (...args: any[]): UnionToIntersection<ToCatch> },
     cb: (arg: ToCatch) => T2 | Result<T2, E2>
   ): Result<T | T2, Exclude<E, ToCatch> | E2> {
     return this.catch_<T | T2, E2 | Exclude<E, ToCatch>>((error) => {
@@ -244,6 +398,91 @@ export class _Result<T, E> {
     });
   }
 
+  /**
+   * Like `catchInstanceOf`, but looks through any `ContextError`s (see
+   * `context()`) wrapping the error, and calls the callback with the
+   * underlying error if _it_ is an instance of the given class.
+   */
+  catchUnderlyingInstanceOf<ToCatch extends UnderlyingError<E>, T2, E2 = never>(
+    type: { new (...args: any[]): UnionToIntersection<ToCatch> },
+    cb: (arg: ToCatch) => T2 | Result<T2, E2>
+  ): Result<T | T2, ExcludeUnderlying<E, ToCatch> | E2> {
+    return this.catch_<T | T2, E2 | ExcludeUnderlying<E, ToCatch>>((error) => {
+      const underlying = underlyingError(error);
+      return underlying instanceof type
+        ? cb(underlying as ToCatch)
+        : (this satisfies Result<T, E> as Result<
+            T,
+            ExcludeUnderlying<E, ToCatch>
+          >);
+    });
+  }
+
+  /**
+   * Like `catchInstanceOf`, but the callback is only called if the error's tag
+   * (see {@link TagOf}) is the given string. Because the tag is a string
+   * literal, this works even when the error classes involved are structurally
+   * identical, and it doesn't require access to the error's constructor.
+   */
+  catchTag<Tag extends TagOf<E>, T2, E2 = never>(
+    tag: Tag,
+    cb: (arg: WithTag<E, Tag>) => T2 | Result<T2, E2>
+  ): Result<T | T2, Exclude<E, WithTag<E, Tag>> | E2> {
+    return this.catch_<T | T2, E2 | Exclude<E, WithTag<E, Tag>>>((error) => {
+      return tagOf(error) === tag
+        ? cb(error as WithTag<E, Tag>)
+        : (this satisfies Result<T, E> as Result<
+            T,
+            Exclude<E, WithTag<E, Tag>>
+          >);
+    });
+  }
+
+  /**
+   * Like `catchTag`, but takes an object mapping tags to callbacks, and calls
+   * the callback (if any) for the error's tag. It's a type error to provide a
+   * callback for a tag that no member of `E` has.
+   */
+  catchTags<Handlers extends TagHandlers<E, unknown>>(
+    handlers: Handlers & NoExtraKeys<Handlers, TagOf<E>>
+  ): Result<
+    T | HandlersOkType<Handlers>,
+    Exclude<E, WithTag<E, keyof Handlers>> | HandlersErrType<Handlers>
+  > {
+    return this.catch_((error) => {
+      const handler = getTagHandler(handlers, error);
+      return handler ? handler(error) : this;
+    }) as Result<any, any>;
+  }
+
+  /**
+   * Like `catchTags`, but requires a callback for every tag in `E`.
+   */
+  catchTagsExhaustive<Handlers extends Required<TagHandlers<E, unknown>>>(
+    handlers: Handlers & NoExtraKeys<Handlers, TagOf<E>>
+  ): Result<
+    T | HandlersOkType<Handlers>,
+    Exclude<E, WithTag<E, keyof Handlers>> | HandlersErrType<Handlers>
+  > {
+    return this.catchTags<Handlers>(handlers);
+  }
+
+  /**
+   * If the Result is an Err, wraps its error in a `ContextError` with the
+   * given message, to record what was being attempted when the error happened
+   * (e.g., "loading tenant config"). The original error becomes the
+   * ContextError's `cause`, and its type is preserved as `ContextError<E>`.
+   *
+   * If the Result is an Ok, a copy of it is returned as-is.
+   */
+  context(message: string): Result<T, ContextError<E>> {
+    return this.data.isOk
+      ? toResult(
+          this satisfies Result<T, E> as unknown as Result<T, ContextError<E>>
+        )
+      : Err(new ContextError(message, this.data.value));
+  }
+
   /**
    * Follows Promise.prototype.finally(), in that the callback is called
    * regardless of whether the Result is an Ok or an Err; but, the returned
@@ -258,12 +497,201 @@ export class _Result<T, E> {
 
     return this.then_<T, E | E2>(fn, fn);
   }
+
+  /**
+   * If the Result is an Ok, returns an Ok holding whatever `fn` returns. Unlike
+   * with `then_`, a returned Result isn't unwrapped, so it ends up nested.
+   *
+   * This, and the other methods below, are strict versions of `then_` and
+   * `catch_`: what they produce never depends on what the callback returns.
+   */
+  map<U>(fn: (value: T) => U): Result<U, E> {
+    return this.data.isOk
+      ? Ok(fn(this.data.value))
+      : toResult(this satisfies Result<T, E> as unknown as Result<U, E>);
+  }
+
+  /**
+   * If the Result is an Err, returns an Err holding whatever `fn` returns
+   * (which, unlike with `Err()`, doesn't have to be an `Error`).
+   */
+  mapErr<E2>(fn: (error: E) => E2): Result<T, E2> {
+    return this.data.isOk
+      ? toResult(this satisfies Result<T, E> as unknown as Result<T, E2>)
+      : new _Result<T, E2>({ isOk: false, value: fn(this.data.value) });
+  }
+
+  /**
+   * If the Result is an Ok, returns the Result that `fn` returns.
+   */
+  flatMap<T2, E2>(fn: (value: T) => Result<T2, E2>): Result<T2, E | E2> {
+    return this.data.isOk
+      ? fn(this.data.value)
+      : toResult(this satisfies Result<T, E> as unknown as Result<T2, E>);
+  }
+
+  /**
+   * If the Result is an Err, returns the Result that `fn` returns.
+   */
+  orElse<T2, E2>(fn: (error: E) => Result<T2, E2>): Result<T | T2, E2> {
+    return this.data.isOk
+      ? toResult(this satisfies Result<T, E> as unknown as Result<T, E2>)
+      : fn(this.data.value);
+  }
+
+  /**
+   * If the Result is an Ok, calls `fn` with its value, for side effects (e.g.,
+   * logging). `fn`'s return value is ignored, and the Result is returned as-is.
+   */
+  tap(fn: (value: T) => void): Result<T, E> {
+    if (this.data.isOk) {
+      fn(this.data.value);
+    }
+    return this;
+  }
+
+  /**
+   * Like `tap`, but calls `fn` with the error if the Result is an Err.
+   */
+  tapErr(fn: (error: E) => void): Result<T, E> {
+    if (!this.data.isOk) {
+      fn(this.data.value);
+    }
+    return this;
+  }
+
+  /**
+   * Turns a Result holding a Result into a single Result.
+   */
+  flatten<T2, E2>(this: Result<Result<T2, E2>, E>): Result<T2, E | E2> {
+    return this.flatMap((it) => it);
+  }
+
+  /**
+   * Combines this Result with another into a Result of both values, which is
+   * an Err if either is (with this Result's error taking precedence).
+   */
+  zip<T2, E2>(other: Result<T2, E2>): Result<[T, T2], E | E2> {
+    return this.flatMap((value) =>
+      other.map((otherValue): [T, T2] => [value, otherValue])
+    );
+  }
+
+  /**
+   * Like `zip`, but combines the two values with `fn`.
+   */
+  zipWith<T2, E2, U>(
+    other: Result<T2, E2>,
+    fn: (value: T, otherValue: T2) => U
+  ): Result<U, E | E2> {
+    return this.zip(other).map(([value, otherValue]) => fn(value, otherValue));
+  }
+
+  /**
+   * Passes this Result through the given operators (e.g., those exported by
+   * `ts-async-result/operators`), in order, and returns the final result.
+   * `result.pipe(f, g)` is the same as `g(f(result))`.
+   *
+   * In pipes of up to 16 operators, each operator's types are inferred from
+   * the operators before it. Longer pipes are checked the same way, step by
+   * step, but generic operators in them must have their types given.
+   */
+  pipe<
+    T2 = NoStep,
+    T3 = NoStep,
+    T4 = NoStep,
+    T5 = NoStep,
+    T6 = NoStep,
+    T7 = NoStep,
+    T8 = NoStep,
+    T9 = NoStep,
+    T10 = NoStep,
+    T11 = NoStep,
+    T12 = NoStep,
+    T13 = NoStep,
+    T14 = NoStep,
+    T15 = NoStep,
+    T16 = NoStep,
+    T17 = NoStep,
+    E2 = never,
+    E3 = never,
+    E4 = never,
+    E5 = never,
+    E6 = never,
+    E7 = never,
+    E8 = never,
+    E9 = never,
+    E10 = never,
+    E11 = never,
+    E12 = never,
+    E13 = never,
+    E14 = never,
+    E15 = never,
+    E16 = never,
+    E17 = never
+  >(
+    ...ops: PipeOperators<
+      T,
+      E,
+      [T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13, T14, T15, T16, T17],
+      [E2, E3, E4, E5, E6, E7, E8, E9, E10, E11, E12, E13, E14, E15, E16, E17]
+    >
+  ): Result<
+    ChainOkType<
+      T,
+      [T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13, T14, T15, T16, T17]
+    >,
+    PipeErrType<
+      E,
+      [T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13, T14, T15, T16, T17],
+      [E2, E3, E4, E5, E6, E7, E8, E9, E10, E11, E12, E13, E14, E15, E16, E17]
+    >
+  >;
+  pipe<Ops extends LongChain>(
+    ...ops: LongPipeOperators<T, E, Ops>
+  ): Result<LongPipeOkType<Ops>, LongPipeErrType<Ops>>;
+  pipe(...ops: ((result: any) => any)[]): Result<any, any> {
+    return ops.reduce((result, op) => op(result), this);
+  }
 }
 
 export function isResult(it: unknown): it is Result<unknown, unknown> {
   return it instanceof _Result;
 }
 
+/**
+ * Standalone versions of `_Result.isOk` and `_Result.isErr`, for passing to
+ * functions like `Array.prototype.filter`.
+ */
+export function isOk<T, E>(result: Result<T, E>): result is OkResult<T> {
+  return result.isOk();
+}
+
+export function isErr<T, E>(result: Result<T, E>): result is ErrResult<E> {
+  return result.isErr();
+}
+
+/**
+ * Wraps a sync iterator as an async one.
+ *
+ * NB: we can't use an async generator for this (or rely on the sync iterator
+ * being wrapped automatically by `yield*`), because either would await the
+ * yielded values, which would turn yielded AsyncResults (which are thenable)
+ * into Results. `yield*` in an async generator doesn't await the values that
+ * come from a delegated-to async iterator, so, this way, the runner in
+ * `AsyncResult.run` gets back exactly what was given to `yield*`.
+ *
+ * @internal
+ */
+export function toAsyncIterator<Y, R>(
+  it: Generator<Y, R, any>
+): AsyncIterator<Y, R, any> {
+  return {
+    next: (...args) => Promise.resolve(it.next(...args)),
+    return: async (value) => it.return((await value) as R),
+  };
+}
+
 function toResult<T, E = never>(it: T | Result<T, E>): Result<T, E> {
   return isResult(it) ? new _Result<T, E>({ ...it.data }) : Ok(it);
 }
@@ -276,16 +704,486 @@ export function Err<E extends Error>(error: E) {
   return new _Result<never, E>({ isOk: false, value: error });
 }
 
-type OkType<T> = T extends Result<infer U, any> ? U : never;
-type ErrType<T> = T extends Result<any, infer U> ? U : never;
+/**
+ * Like `Err()`, but for errors that aren't `Error`s, like error codes (e.g.,
+ * `Fail("INSUFFICIENT_FUNDS")`) or plain objects describing what went wrong.
+ * The error's literal type is kept, so different codes can be told apart. If
+ * the error is thrown (e.g., by `valueOrThrow`), it's wrapped in a
+ * `ResultError` first.
+ */
+export function Fail<const E>(error: E) {
+  return new _Result<never, E>({ isOk: false, value: error });
+}
+
+export type OkType<T> = T extends Result<infer U, any> ? U : never;
+export type ErrType<T> = T extends Result<any, infer U> ? U : never;
+
+/**
+ * The string that identifies an error type, for use with `catchTag` and
+ * friends: its `_tag` property, if it has one, or else its `name`, but only if
+ * `name` is typed as a string literal (rather than just `string`, as it is on
+ * plain `Error`s).
+ *
+ * NB: at runtime, we can't tell whether an error's `name` was typed as a
+ * literal, so a plain `Error` whose `name` happens to equal a tag will be
+ * caught by `catchTag` even though its type isn't reflected in the callback's
+ * argument.
+ */
+export type TagOf<E> = E extends { readonly _tag: infer Tag extends string }
+  ? Tag
+  : E extends { readonly name: infer Name extends string }
+  ? string extends Name
+    ? never
+    : Name
+  : never;
+
+// The members of the union E whose tag is Tag.
+//
+// NB: this is defined with `Extract` against a fixed shape, rather than by
+// comparing against `TagOf<E>`, because the latter makes TS treat Result as
+// invariant in E, which breaks (e.g.) assigning an `Ok` to a `Result<T, E>`.
+export type WithTag<E, Tag> = Extract<
+  E,
+  { readonly _tag: Tag } | { readonly _tag?: undefined; readonly name: Tag }
+>;
+
+export type TagHandlers<E, R> = {
+  [K in TagOf<E>]?: (arg: WithTag<E, K>) => R;
+};
+
+// Makes any key in T that isn't in AllowedKeys map to `never`, so that passing
+// an object with such a key is a type error.
+export type NoExtraKeys<T, AllowedKeys extends PropertyKey> = {
+  [K in Exclude<keyof T, AllowedKeys>]: never;
+};
+
+type HandlersOkType<Handlers> = {
+  [K in keyof Handlers]: Handlers[K] extends (arg: any) => infer R
+    ? R extends Result<infer U, any>
+      ? U
+      : R
+    : never;
+}[keyof Handlers];
+
+type HandlersErrType<Handlers> = {
+  [K in keyof Handlers]: Handlers[K] extends (arg: any) => infer R
+    ? ErrType<R>
+    : never;
+}[keyof Handlers];
+
+// The Ok/Err types of a value returned by a callback, which can be a Result or
+// a plain value (which becomes an Ok). If `IsAsync`, the value is awaited
+// first, so it can also be a promise or an AsyncResult (which is thenable).
+type ReturnedValue<R, IsAsync extends boolean> = IsAsync extends true
+  ? Awaited<R>
+  : R;
+
+export type ReturnedOkType<R, IsAsync extends boolean> = ReturnedValue<
+  R,
+  IsAsync
+> extends infer V
+  ? V extends Result<infer U, any>
+    ? U
+    : V
+  : never;
+
+export type ReturnedErrType<R, IsAsync extends boolean> = ErrType<
+  ReturnedValue<R, IsAsync>
+>;
+
+declare const noStep: unique symbol;
+
+/**
+ * The default for each of the type parameters that `thenChain` and `compose`
+ * use to track the Ok types of their callbacks, which marks the callbacks
+ * that weren't given.
+ *
+ * @internal
+ */
+export type NoStep = typeof noStep;
+
+// Whether T is `NoStep`. (A callback whose Ok type is `any` or `never` must
+// still count as a step.)
+type IsNoStep<T> = 0 extends 1 & T
+  ? false
+  : [T] extends [never]
+  ? false
+  : [T] extends [NoStep]
+  ? true
+  : false;
+
+/**
+ * The callbacks that `thenChain` accepts, given their Ok and Err types: each
+ * one is called with the Ok value produced by the one before it (or `T`, for
+ * the first) and the `history` of the values before that. The first callback
+ * is required.
+ *
+ * NB: `thenChain` takes a separate type parameter for each callback's Ok (and
+ * Err) type, rather than one for the whole list of callbacks, because that's
+ * what lets TS infer each callback's parameter types from the callback before
+ * it. (TS settles a type parameter's inference as soon as a callback's
+ * parameter type depends on it, so, with a single list, it'd settle the whole
+ * list's type at the first callback.)
+ *
+ * @internal
+ */
+export type ChainCallbacks<
+  T,
+  OkTypes extends unknown[],
+  ErrTypes extends unknown[],
+  IsAsync extends boolean
+> = OkTypes extends [infer T2, ...infer RestOk]
+  ? ErrTypes extends [infer E2, ...infer RestErr]
+    ? [
+        cb: (arg: T, history: []) => ChainedReturn<T2, E2, IsAsync>,
+        ...ChainedCallbacks<T2, RestOk, RestErr, IsAsync, [T]>
+      ]
+    : []
+  : [];
+
+type ChainedCallbacks<
+  T,
+  OkTypes extends unknown[],
+  ErrTypes extends unknown[],
+  IsAsync extends boolean,
+  History extends unknown[]
+> = OkTypes extends [infer T2, ...infer RestOk]
+  ? ErrTypes extends [infer E2, ...infer RestErr]
+    ? [
+        cb?: (arg: T, history: History) => ChainedReturn<T2, E2, IsAsync>,
+        ...ChainedCallbacks<T2, RestOk, RestErr, IsAsync, [...History, T]>
+      ]
+    : []
+  : [];
+
+type ChainedReturn<T, E, IsAsync extends boolean> = IsAsync extends true
+  ? ResultPromisable<T, E>
+  : T | Result<T, E>;
+
+/**
+ * Like `ChainCallbacks`, but for the functions given to `compose`, which
+ * don't get a `history` and must return Results (or, if `IsAsync`, anything
+ * AsyncResult accepts).
+ *
+ * @internal
+ */
+export type ComposeFns<
+  T,
+  OkTypes extends unknown[],
+  ErrTypes extends unknown[],
+  IsAsync extends boolean
+> = OkTypes extends [infer T1, ...infer RestOk]
+  ? ErrTypes extends [infer E1, ...infer RestErr]
+    ? [
+        fn: (v: T) => ComposedReturn<T1, E1, IsAsync>,
+        ...ComposedFns<T1, RestOk, RestErr, IsAsync>
+      ]
+    : []
+  : [];
+
+type ComposedFns<
+  T,
+  OkTypes extends unknown[],
+  ErrTypes extends unknown[],
+  IsAsync extends boolean
+> = OkTypes extends [infer T2, ...infer RestOk]
+  ? ErrTypes extends [infer E2, ...infer RestErr]
+    ? [
+        fn?: (v: T) => ComposedReturn<T2, E2, IsAsync>,
+        ...ComposedFns<T2, RestOk, RestErr, IsAsync>
+      ]
+    : []
+  : [];
+
+type ComposedReturn<T, E, IsAsync extends boolean> = IsAsync extends true
+  ? ResultPromisable<T, E>
+  : Result<T, E>;
+
+/**
+ * The Ok type produced by a chain of callbacks with the given Ok types (i.e.,
+ * that of the last one given), or `T` if none were given.
+ *
+ * @internal
+ */
+export type ChainOkType<T, OkTypes extends unknown[]> = OkTypes extends [
+  infer T2,
+  ...infer Rest
+]
+  ? IsNoStep<T2> extends true
+    ? T
+    : ChainOkType<T2, Rest>
+  : T;
+
+/**
+ * A chain of more callbacks (or functions, for `compose`) than
+ * `ChainCallbacks` and `ComposeFns` cover.
+ *
+ * @internal
+ */
+export type LongChain = [
+  AnyFunction,
+  AnyFunction,
+  AnyFunction,
+  AnyFunction,
+  AnyFunction,
+  AnyFunction,
+  AnyFunction,
+  AnyFunction,
+  AnyFunction,
+  AnyFunction,
+  AnyFunction,
+  AnyFunction,
+  AnyFunction,
+  AnyFunction,
+  AnyFunction,
+  AnyFunction,
+  AnyFunction,
+  ...AnyFunction[]
+];
+
+/**
+ * The callbacks that `thenChain` accepts in a chain of any length, given the
+ * callbacks themselves: each one is checked against the signature that the
+ * callbacks before it give it, so a type error points at the callback that
+ * doesn't fit.
+ *
+ * NB: unlike with `ChainCallbacks`, TS can't infer the callbacks' parameter
+ * types from this, so they must be annotated.
+ *
+ * @internal
+ */
+export type LongChainCallbacks<
+  T,
+  Cbs extends AnyFunction[],
+  IsAsync extends boolean
+> = {
+  [K in keyof Cbs]: Cbs[K] &
+    ChainSignatures<T, Cbs, IsAsync>[K &
+      keyof ChainSignatures<T, Cbs, IsAsync>];
+};
+
+type ChainSignatures<
+  T,
+  Cbs extends unknown[],
+  IsAsync extends boolean,
+  History extends unknown[] = [],
+  Signatures extends unknown[] = []
+> = Cbs extends [infer Cb extends AnyFunction, ...infer Rest]
+  ? ChainSignatures<
+      ReturnedOkType<ReturnType<Cb>, IsAsync>,
+      Rest,
+      IsAsync,
+      [...History, T],
+      [...Signatures, (arg: T, history: History) => unknown]
+    >
+  : Signatures;
+
+/**
+ * Like `LongChainCallbacks`, but for the functions given to `compose`.
+ *
+ * @internal
+ */
+export type LongComposeFns<
+  Fns extends AnyFunction[],
+  IsAsync extends boolean
+> = {
+  [K in keyof Fns]: Fns[K] &
+    ComposeSignatures<Parameters<Fns[0]>[0], Fns, IsAsync>[K &
+      keyof ComposeSignatures<Parameters<Fns[0]>[0], Fns, IsAsync>];
+};
+
+type ComposeSignatures<
+  T,
+  Fns extends unknown[],
+  IsAsync extends boolean,
+  Signatures extends unknown[] = []
+> = Fns extends [infer Fn extends AnyFunction, ...infer Rest]
+  ? ComposeSignatures<
+      ReturnedOkType<ReturnType<Fn>, IsAsync>,
+      Rest,
+      IsAsync,
+      [...Signatures, (v: T) => ComposedReturn<any, any, IsAsync>]
+    >
+  : Signatures;
+
+/**
+ * The Ok type produced by a chain of callbacks (i.e., that of the last one).
+ *
+ * @internal
+ */
+export type LongChainOkType<
+  Cbs extends AnyFunction[],
+  IsAsync extends boolean
+> = Cbs extends [...unknown[], infer Last extends AnyFunction]
+  ? ReturnedOkType<ReturnType<Last>, IsAsync>
+  : never;
+
+/**
+ * The union of the Err types produced by a chain of callbacks.
+ *
+ * @internal
+ */
+export type LongChainErrType<
+  Cbs extends AnyFunction[],
+  IsAsync extends boolean
+> = {
+  [K in keyof Cbs]: ReturnedErrType<ReturnType<Cbs[K]>, IsAsync>;
+}[number];
+
+/**
+ * The operators that `pipe` accepts, given the Ok and Err types of the
+ * results they return: each one is given the result returned by the one
+ * before it (or the one `pipe` was called on, for the first). The first
+ * operator is required.
+ *
+ * NB: like `thenChain`, `pipe` takes separate type parameters for each
+ * operator, so that TS can infer a generic operator's types (e.g., the `T` of
+ * `map`) from the operator before it.
+ *
+ * @internal
+ */
+export type PipeOperators<
+  T,
+  E,
+  OkTypes extends unknown[],
+  ErrTypes extends unknown[]
+> = OkTypes extends [infer T2, ...infer RestOk]
+  ? ErrTypes extends [infer E2, ...infer RestErr]
+    ? [op: Operator<T, E, T2, E2>, ...PipedOperators<T2, E2, RestOk, RestErr>]
+    : []
+  : [];
+
+type PipedOperators<
+  T,
+  E,
+  OkTypes extends unknown[],
+  ErrTypes extends unknown[]
+> = OkTypes extends [infer T2, ...infer RestOk]
+  ? ErrTypes extends [infer E2, ...infer RestErr]
+    ? [op?: Operator<T, E, T2, E2>, ...PipedOperators<T2, E2, RestOk, RestErr>]
+    : []
+  : [];
+
+/**
+ * The Err type of the result that `pipe` returns, given the Ok and Err types
+ * of the results its operators return (i.e., that of the last one given), or
+ * `E` if none were given.
+ *
+ * @internal
+ */
+export type PipeErrType<
+  E,
+  OkTypes extends unknown[],
+  ErrTypes extends unknown[]
+> = OkTypes extends [infer T2, ...infer RestOk]
+  ? ErrTypes extends [infer E2, ...infer RestErr]
+    ? IsNoStep<T2> extends true
+      ? E
+      : PipeErrType<E2, RestOk, RestErr>
+    : E
+  : E;
+
+/**
+ * The operators that `pipe` accepts in a chain of any length, given the
+ * operators themselves: like `LongChainCallbacks`, each is checked against
+ * the result that the operators before it return.
+ *
+ * NB: TS can't infer a generic operator's types from this, so the operators
+ * in a chain this long must have their types fixed already.
+ *
+ * @internal
+ */
+export type LongPipeOperators<T, E, Ops extends AnyFunction[]> = {
+  [K in keyof Ops]: Ops[K] &
+    PipeSignatures<T, E, Ops>[K & keyof PipeSignatures<T, E, Ops>];
+};
+
+type PipeSignatures<
+  T,
+  E,
+  Ops extends unknown[],
+  Signatures extends unknown[] = []
+> = Ops extends [infer Op, ...infer Rest]
+  ? Op extends Operator<never, never, infer T2, infer E2>
+    ? PipeSignatures<
+        T2,
+        E2,
+        Rest,
+        [...Signatures, Operator<T, E, unknown, unknown>]
+      >
+    : Signatures
+  : Signatures;
+
+/**
+ * The Ok type of the result that the last of the given operators returns.
+ *
+ * @internal
+ */
+export type LongPipeOkType<Ops extends AnyFunction[]> = Ops extends [
+  ...unknown[],
+  Operator<never, never, infer T2, unknown>
+]
+  ? T2
+  : never;
+
+/**
+ * The Err type of the result that the last of the given operators returns.
+ *
+ * @internal
+ */
+export type LongPipeErrType<Ops extends AnyFunction[]> = Ops extends [
+  ...unknown[],
+  Operator<never, never, unknown, infer E2>
+]
+  ? E2
+  : never;
+
+/**
+ * The runtime counterpart to {@link TagOf}.
+ *
+ * @internal
+ */
+export function tagOf(error: unknown): unknown {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+  const { _tag, name } = error as { _tag?: unknown; name?: unknown };
+  return _tag !== undefined ? _tag : name;
+}
+
+/**
+ * Returns the callback in `handlers` for the error's tag, if there is one.
+ * Only own properties are considered, so an error tagged "toString" (say)
+ * doesn't find `Object.prototype.toString`.
+ *
+ * @internal
+ */
+export function getTagHandler(
+  handlers: object,
+  error: unknown
+): ((arg: any) => any) | undefined {
+  const tag = tagOf(error);
+  const handler =
+    typeof tag === "string" &&
+    Object.prototype.hasOwnProperty.call(handlers, tag)
+      ? (handlers as Record<string, unknown>)[tag]
+      : undefined;
+  return typeof handler === "function"
+    ? (handler as (arg: any) => any)
+    : undefined;
+}
 
 // Takes T, a tuple or array of Result types,
 // and returns a tuple or array with  all those results' Ok types.
-type OkTypes<T extends Result<any, any>[]> = { [K in keyof T]: OkType<T[K]> };
+export type OkTypes<T extends Result<any, any>[]> = {
+  [K in keyof T]: OkType<T[K]>;
+};
 
 // Takes T, a tuple or array of Result types,
 // and returns a tuple or array with all those results' Err types.
-type ErrTypes<T extends Result<any, any>[]> = { [K in keyof T]: ErrType<T[K]> };
+export type ErrTypes<T extends Result<any, any>[]> = {
+  [K in keyof T]: ErrType<T[K]>;
+};
 
 export const Result = {
   all<T extends [] | Result<any, any>[]>(
@@ -303,10 +1201,29 @@ export const Result = {
     return Ok(okValues as OkTypes<T>);
   },
 
+  /**
+   * Like `Result.all`, but takes (and produces) an object of results, rather
+   * than an array, so that each value is identified by its key.
+   */
+  allObject<T extends Record<string, Result<any, any>>>(
+    results: T
+  ): Result<{ [K in keyof T]: OkType<T[K]> }, ErrType<T[keyof T]>> {
+    const keys = Object.keys(results);
+    return Result.all(Object.values(results)).then_(
+      (values) =>
+        Object.fromEntries(keys.map((key, i) => [key, values[i]])) as {
+          [K in keyof T]: OkType<T[K]>;
+        }
+    );
+  },
+
   any<T extends [] | Result<any, any>[]>(
     results: T
-  ): Result<OkTypes<T>[number], AggregateError & { errors: ErrTypes<T>[] }> {
-    const errValues: ErrTypes<T>[] = [];
+  ): Result<
+    OkTypes<T>[number],
+    AggregateError & { errors: ErrTypes<T>[number][] }
+  > {
+    const errValues: ErrTypes<T>[number][] = [];
     for (const result of results) {
       if (result.data.isOk) {
         return result satisfies Result<any, any> as Ok<OkTypes<T>[number]>;
@@ -318,6 +1235,146 @@ export const Result = {
     return Err(new AggregateError(errValues));
   },
 
+  /**
+   * Calls `fn` with each item (and its index) until it returns an Err,
+   * collecting the Ok values. Unlike `Result.all(items.map(fn))`, `fn` isn't
+   * called for the items after the first Err, and any iterable can be given.
+   * The Err is wrapped in an `ItemError`, which records the failing index
+   * (and, if the items are a Map's entries, the failing entry's key).
+   */
+  traverse,
+
+  /**
+   * Like `Result.all`, but, rather than stopping at the first Err, returns
+   * every error (in order) if any of the results are Errs. Useful for, e.g.,
+   * validation, where all the problems should be reported at once.
+   */
+  allErrors<T extends [] | Result<any, any>[]>(
+    results: T
+  ): Result<OkTypes<T>, NonEmptyArray<ErrTypes<T>[number]>> {
+    const [okValues, errValues] = Result.partition<T[number]>(results);
+
+    return errValues.length
+      ? new _Result<never, NonEmptyArray<ErrTypes<T>[number]>>({
+          isOk: false,
+          value: errValues as NonEmptyArray<ErrTypes<T>[number]>,
+        })
+      : Ok(okValues as OkTypes<T>);
+  },
+
+  /**
+   * Combines an object of results into a result of an object. If any of the
+   * results are Errs, returns an Err holding an object that maps the key of
+   * each failing result to its error.
+   *
+   * @example
+   * ```
+   * const config = Result.validate({
+   *   port: parsePort(env.PORT), // Result<number, InvalidPortError>
+   *   host: parseHost(env.HOST), // Result<string, InvalidHostError>
+   * });
+   * // Result<
+   * //   { port: number; host: string },
+   * //   { port?: InvalidPortError; host?: InvalidHostError }
+   * // >
+   * ```
+   */
+  validate<T extends Record<string, Result<any, any>>>(
+    results: T
+  ): Result<
+    { [K in keyof T]: OkType<T[K]> },
+    { [K in keyof T]?: ErrType<T[K]> }
+  > {
+    const okValues: Record<string, unknown> = {};
+    const errValues: Record<string, unknown> = {};
+    let hasErr = false;
+
+    for (const [key, result] of Object.entries(results)) {
+      if (result.data.isOk) {
+        okValues[key] = result.data.value;
+      } else {
+        errValues[key] = result.data.value;
+        hasErr = true;
+      }
+    }
+
+    return hasErr
+      ? new _Result<never, any>({ isOk: false, value: errValues })
+      : Ok(okValues as { [K in keyof T]: OkType<T[K]> });
+  },
+
+  /**
+   * Splits the results into their Ok values and their errors, each in order.
+   */
+  partition<R extends Result<any, any>>(
+    results: readonly R[]
+  ): [oks: OkType<R>[], errs: ErrType<R>[]] {
+    const okValues: OkType<R>[] = [];
+    const errValues: ErrType<R>[] = [];
+    for (const result of results) {
+      if (result.data.isOk) {
+        okValues.push(result.data.value);
+      } else {
+        errValues.push(result.data.value);
+      }
+    }
+    return [okValues, errValues];
+  },
+
+  /**
+   * Runs the given function and captures its outcome as a Result: its return
+   * value becomes an Ok (or, if it returns a Result, that Result is used
+   * as-is), and anything it throws is passed through `mapError` to produce an
+   * Err.
+   *
+   * `mapError` is required because the thrown value is `unknown`; requiring it
+   * keeps us from ever ending up with a `Result<T, unknown>` by accident.
+   */
+  try<T, E extends Error, E2 = never>(
+    fn: () => T | Result<T, E2>,
+    mapError: (thrown: unknown) => E
+  ): Result<T, E | E2> {
+    try {
+      return toResult<T, E | E2>(fn());
+    } catch (e) {
+      return Err(mapError(e));
+    }
+  },
+
+  /**
+   * Returns a version of `fn` that, instead of throwing, returns a Result.
+   * See {@link Result.try}. The returned function takes the same parameters
+   * as `fn` and is called with the same `this`.
+   */
+  fromThrowable<A extends any[], T, E extends Error, E2 = never>(
+    fn: (...args: A) => T | Result<T, E2>,
+    mapError: (thrown: unknown) => E
+  ): (...args: A) => Result<T, E | E2> {
+    return function (this: unknown, ...args: A) {
+      return Result.try(() => fn.apply(this, args), mapError);
+    };
+  },
+
+  /**
+   * Returns an Ok holding the value if it isn't null or undefined; otherwise,
+   * returns an Err with the error produced by `getError`.
+   */
+  fromNullable<T, E extends Error>(
+    value: T,
+    getError: () => E
+  ): Result<NonNullable<T>, E> {
+    return value === null || value === undefined
+      ? Err(getError())
+      : Ok(value as NonNullable<T>);
+  },
+
+  /**
+   * Returns an Ok holding the value if it satisfies the predicate; otherwise,
+   * returns an Err with the error produced by `getError`. If the predicate is a
+   * type guard, the Ok type is narrowed accordingly.
+   */
+  fromPredicate,
+
   compose: c,
 
   /**
@@ -367,9 +1424,9 @@ export const Result = {
    * @template U - The type of the final result.
    * @param {() => Generator<Yields, U, any>} fn - The generator function to run.
    */
-  run<Yields extends Result<any, any>, U>(
+  run<Yields extends Result<any, any> | Deferred<any, false>, U>(
     fn: () => Generator<Yields, U, any>
-  ): Result<U, ErrType<Yields>> {
+  ): Result<U, RunErrType<Yields>> {
     // Here's what's going on here...
     //
     // Result.run() initialize the generator by calling fn(), and then it's
@@ -412,119 +1469,331 @@ export const Result = {
     //    `yield*`) that unwrapped value gets passed in to the Result iterator's
     //    `next()`, which then returns it `done: true`, so it shows up in the
     //    generator body as the value of the `yield*`.
+    //
+    // Separately, any finalizers registered with `yield* Result.defer(...)`
+    // are collected as they're yielded (and the generator is immediately
+    // resumed), and then run once the generator has finished, however it
+    // finished. See `settleFinalized` for how their outcomes are combined.
     const gen = fn();
+    const finalizers: Deferred<unknown, false>[] = [];
     let done: boolean = false;
     let returnResult: any = Ok(undefined);
 
-    while (!done) {
-      returnResult = returnResult.then_((v: any) => {
-        const { value, done: done_ = false } = gen.next(v);
-        if (isResult(value) && !value.data.isOk) {
-          done = true;
-          // Let the generator do its cleanup, since we're
-          // manually bailing early.
-          gen.return?.(value as any);
-        } else {
-          done = done_;
-        }
-        // Return the yielded `Result`. If we're not done yet, the value in
-        // this will be unpacked on the next iteration of the loop and passed
-        // back into the generator (where it'll reach the Result's interator
-        // per above and make it `return`, filling in the value of the
-        // `yield*` and continuing the generator).
-        return value as any;
-      });
+    const next = (v: unknown) => {
+      let step = gen.next(v);
+      while (!step.done && step.value instanceof Deferred) {
+        finalizers.push(step.value);
+        step = gen.next(undefined);
+      }
+      return step;
+    };
+
+    try {
+      while (!done) {
+        returnResult = returnResult.then_((v: any) => {
+          const { value, done: done_ = false } = next(v);
+          if (isResult(value) && !value.data.isOk) {
+            done = true;
+            // Let the generator do its cleanup, since we're
+            // manually bailing early.
+            gen.return?.(value as any);
+          } else {
+            done = done_;
+          }
+          // Return the yielded `Result`. If we're not done yet, the value in
+          // this will be unpacked on the next iteration of the loop and passed
+          // back into the generator (where it'll reach the Result's interator
+          // per above and make it `return`, filling in the value of the
+          // `yield*` and continuing the generator).
+          return value as any;
+        });
+      }
+    } catch (reason) {
+      return settleFinalized(
+        { type: "thrown", reason },
+        finalizers.reverse().map(runFinalizer)
+      );
     }
-    return returnResult;
+
+    return settleFinalized(
+      { type: "result", result: returnResult },
+      finalizers.reverse().map(runFinalizer)
+    );
   },
+
+  /**
+   * Turns a generator function into a Result-returning function, which runs
+   * the generator with `Result.run` each time it's called. The generator gets
+   * the function's arguments and `this`, and the function's Err type is
+   * inferred from what the generator yields, just like with `Result.run`.
+   *
+   * The function is named after the generator function, unless a `name` is
+   * given in the options (e.g., to label it in stack traces and tracing spans).
+   *
+   * @example
+   * ```
+   * const getUser = Result.fn(function* (id: string) {
+   *   const firstName = yield* getFirstNameResult(id);
+   *   const lastName = yield* getLastNameResult(id);
+   *   return { firstName, lastName };
+   * });
+   * ```
+   */
+  fn<
+    This,
+    Args extends unknown[],
+    Yields extends Result<any, any> | Deferred<any, false>,
+    U
+  >(
+    body: (this: This, ...args: Args) => Generator<Yields, U, any>,
+    options?: FnOptions
+  ): (this: This, ...args: Args) => Result<U, RunErrType<Yields>> {
+    return withName(function (this: This, ...args: Args) {
+      return Result.run(() => body.apply(this, args));
+    }, options?.name ?? body.name);
+  },
+
+  /**
+   * For use in the body of a generator passed to `Result.run`. Registers a
+   * callback to be called after the generator finishes, however it finishes
+   * (returning, yielding an Err, or throwing). Like Go's `defer` statement,
+   * callbacks are called in the reverse of the order they were registered,
+   * which makes this useful for releasing resources.
+   *
+   * If the callback returns an Err or throws, that isn't lost: it becomes the
+   * result of the `Result.run` call, or is combined with the run's own Err or
+   * thrown error into an AggregateError.
+   *
+   * @example
+   * ```
+   * Result.run(function* () {
+   *   const conn = yield* openConnection();
+   *   yield* Result.defer(() => conn.close());
+   *   return yield* query(conn);
+   * });
+   * ```
+   */
+  defer<E2 = never>(cb: () => void | Result<unknown, E2>): Deferred<E2, false> {
+    return new Deferred(cb);
+  },
+};
+
+/**
+ * What's yielded (via `yield*`) by `Result.defer` and `AsyncResult.defer`, to
+ * tell the runner to register the finalizer. `IsAsync` records whether the
+ * finalizer may return a promise, which only `AsyncResult.run` supports.
+ *
+ * @internal
+ */
+export class Deferred<E, IsAsync extends boolean> {
+  declare readonly _errorType?: E;
+  declare readonly _isAsync?: IsAsync;
+
+  constructor(public readonly finalizer: () => unknown) {}
+
+  *[Symbol.iterator](): Iterator<Deferred<E, IsAsync>, void, any> {
+    yield this;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<Deferred<E, IsAsync>, void, any> {
+    return toAsyncIterator(
+      this[Symbol.iterator]() as Generator<Deferred<E, IsAsync>, void, any>
+    );
+  }
+}
+
+/**
+ * Options for `Result.fn` and `AsyncResult.fn`.
+ */
+export type FnOptions = {
+  /** The name to give the returned function. */
+  name?: string;
 };
 
-function c<T, U, V, W, X, Y, Z>(
-  f0: (v: T) => Result<U, V>,
-  f1: (v: U) => Result<W, X>
-): (v: T) => Result<W, X>;
-function c<T, U, V, W, X, Y, Z>(
-  f0: (v: T) => Result<U, V>,
-  f1: (v: U) => Result<W, X>,
-  f2: (v: W) => Result<Y, Z>
-): (v: T) => Result<Y, Z>;
-function c<T, U, V, W, X, Y, Z, A, B>(
-  f0: (v: T) => Result<U, V>,
-  f1: (v: U) => Result<W, X>,
-  f2: (v: W) => Result<Y, Z>,
-  f3: (v: Y) => Result<A, B>
-): (v: T) => Result<A, B>;
-function c<T, U, V, W, X, Y, Z, A, B, C, D>(
-  f0: (v: T) => Result<U, V>,
-  f1: (v: U) => Result<W, X>,
-  f2: (v: W) => Result<Y, Z>,
-  f3: (v: Y) => Result<A, B>,
-  f4: (v: A) => Result<C, D>
-): (v: T) => Result<C, D>;
-function c<T, U, V, W, X, Y, Z, A, B, C, D, E, F>(
-  f0: (v: T) => Result<U, V>,
-  f1: (v: U) => Result<W, X>,
-  f2: (v: W) => Result<Y, Z>,
-  f3: (v: Y) => Result<A, B>,
-  f4: (v: A) => Result<C, D>,
-  f5: (v: C) => Result<E, F>
-): (v: T) => Result<E, F>;
-function c<T, U, V, W, X, Y, Z, A, B, C, D, E, F, G, H>(
-  f0: (v: T) => Result<U, V>,
-  f1: (v: U) => Result<W, X>,
-  f2: (v: W) => Result<Y, Z>,
-  f3: (v: Y) => Result<A, B>,
-  f4: (v: A) => Result<C, D>,
-  f5: (v: C) => Result<E, F>,
-  f6: (v: E) => Result<G, H>
-): (v: T) => Result<G, H>;
-function c<T, U, V, W, X, Y, Z, A, B, C, D, E, F, G, H, I, J>(
-  f0: (v: T) => Result<U, V>,
-  f1: (v: U) => Result<W, X>,
-  f2: (v: W) => Result<Y, Z>,
-  f3: (v: Y) => Result<A, B>,
-  f4: (v: A) => Result<C, D>,
-  f5: (v: C) => Result<E, F>,
-  f6: (v: E) => Result<G, H>,
-  f7: (v: G) => Result<I, J>
-): (v: T) => Result<I, J>;
-function c<T, U, V, W, X, Y, Z, A, B, C, D, E, F, G, H, I, J, K, L>(
-  f0: (v: T) => Result<U, V>,
-  f1: (v: U) => Result<W, X>,
-  f2: (v: W) => Result<Y, Z>,
-  f3: (v: Y) => Result<A, B>,
-  f4: (v: A) => Result<C, D>,
-  f5: (v: C) => Result<E, F>,
-  f6: (v: E) => Result<G, H>,
-  f7: (v: G) => Result<I, J>,
-  f8: (v: I) => Result<K, L>
-): (v: T) => Result<K, L>;
-function c<T, U, V, W, X, Y, Z, A, B, C, D, E, F, G, H, I, J, K, L, M, N>(
-  f0: (v: T) => Result<U, V>,
-  f1: (v: U) => Result<W, X>,
-  f2: (v: W) => Result<Y, Z>,
-  f3: (v: Y) => Result<A, B>,
-  f4: (v: A) => Result<C, D>,
-  f5: (v: C) => Result<E, F>,
-  f6: (v: E) => Result<G, H>,
-  f7: (v: G) => Result<I, J>,
-  f8: (v: I) => Result<K, L>,
-  f9: (v: K) => Result<M, N>
-): (v: T) => Result<M, N>;
-function c<T, U, V, W, X, Y, Z, A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P>(
-  f0: (v: T) => Result<U, V>,
-  f1: (v: U) => Result<W, X>,
-  f2: (v: W) => Result<Y, Z>,
-  f3: (v: Y) => Result<A, B>,
-  f4: (v: A) => Result<C, D>,
-  f5: (v: C) => Result<E, F>,
-  f6: (v: E) => Result<G, H>,
-  f7: (v: G) => Result<I, J>,
-  f8: (v: I) => Result<K, L>,
-  f9: (v: K) => Result<M, N>,
-  f10: (v: M) => Result<O, P>
-): (v: T) => Result<O, P>;
-function c(...fns: NonEmptyArray<(v: any) => Result<any, any>>) {
+// The errors that a `run` body's Result can hold, given what it yields. If
+// finalizers were registered, their errors might be combined with others.
+export type RunErrType<Yields> =
+  | YieldedErrType<Yields>
+  | ([Extract<Yields, Deferred<any, any>>] extends [never]
+      ? never
+      : AggregateError & { errors: YieldedErrType<Yields>[] });
+
+type YieldedErrType<Yields> = Yields extends Result<any, infer E>
+  ? E
+  : Yields extends Deferred<infer E, any>
+  ? E
+  : never;
+
+/**
+ * How some code finished: either with a Result, or by throwing/rejecting.
+ *
+ * @internal
+ */
+export type Outcome =
+  | { type: "result"; result: Result<unknown, unknown> }
+  | { type: "thrown"; reason: unknown };
+
+function runFinalizer(deferred: Deferred<unknown, false>): Outcome {
+  try {
+    const returned = deferred.finalizer();
+    return {
+      type: "result",
+      result: isResult(returned) ? returned : Ok(returned),
+    };
+  } catch (reason) {
+    return { type: "thrown", reason };
+  }
+}
+
+/**
+ * Combines the outcome of a `run` body with the outcomes of its finalizers.
+ * If anything threw, the combined outcome is to throw (with an AggregateError,
+ * if more than one thing threw); otherwise, if anything produced an Err, the
+ * result is an Err (again, with an AggregateError if there were several);
+ * otherwise, it's the body's result.
+ *
+ * @internal
+ */
+export function settleFinalized(
+  primary: Outcome,
+  finalizerOutcomes: Outcome[]
+): Result<any, any> {
+  const outcomes = [primary, ...finalizerOutcomes];
+  const thrown = outcomes.flatMap((it) =>
+    it.type === "thrown" ? [it.reason] : []
+  );
+  if (thrown.length > 0) {
+    throw combineErrors(thrown);
+  }
+
+  const errors = outcomes.flatMap((it) =>
+    it.type === "result" && !it.result.data.isOk ? [it.result.data.value] : []
+  );
+  if (errors.length > 0) {
+    return new _Result({ isOk: false, value: combineErrors(errors) });
+  }
+
+  return (primary as Extract<Outcome, { type: "result" }>).result;
+}
+
+function combineErrors(errors: unknown[]) {
+  return errors.length === 1 ? errors[0] : new AggregateError(errors);
+}
+
+function traverse<K, V, T, E>(
+  items: Map<K, V>,
+  fn: (entry: [K, V], index: number) => Result<T, E>
+): Result<T[], ItemError<E, K>>;
+function traverse<Item, T, E>(
+  items: Iterable<Item>,
+  fn: (item: Item, index: number) => Result<T, E>
+): Result<T[], ItemError<E>>;
+function traverse<Item, T, E>(
+  items: Iterable<Item>,
+  fn: (item: Item, index: number) => Result<T, E>
+): Result<T[], ItemError<E>> {
+  const okValues: T[] = [];
+  let index = 0;
+  for (const item of items) {
+    const result = fn(item, index);
+    if (!result.data.isOk) {
+      return Err(itemError(items, index, item, result.data.value));
+    }
+    okValues.push(result.data.value);
+    index++;
+  }
+  return Ok(okValues);
+}
+
+function fromPredicate<T, U extends T, E extends Error>(
+  value: T,
+  predicate: (value: T) => value is U,
+  getError: (value: T) => E
+): Result<U, E>;
+function fromPredicate<T, E extends Error>(
+  value: T,
+  predicate: (value: T) => boolean,
+  getError: (value: T) => E
+): Result<T, E>;
+function fromPredicate<T, E extends Error>(
+  value: T,
+  predicate: (value: T) => boolean,
+  getError: (value: T) => E
+): Result<T, E> {
+  return predicate(value) ? Ok(value) : Err(getError(value));
+}
+
+function c<
+  T,
+  T1,
+  E1,
+  T2 = NoStep,
+  T3 = NoStep,
+  T4 = NoStep,
+  T5 = NoStep,
+  T6 = NoStep,
+  T7 = NoStep,
+  T8 = NoStep,
+  T9 = NoStep,
+  T10 = NoStep,
+  T11 = NoStep,
+  T12 = NoStep,
+  T13 = NoStep,
+  T14 = NoStep,
+  T15 = NoStep,
+  T16 = NoStep,
+  E2 = never,
+  E3 = never,
+  E4 = never,
+  E5 = never,
+  E6 = never,
+  E7 = never,
+  E8 = never,
+  E9 = never,
+  E10 = never,
+  E11 = never,
+  E12 = never,
+  E13 = never,
+  E14 = never,
+  E15 = never,
+  E16 = never
+>(
+  ...fns: ComposeFns<
+    T,
+    [T1, T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13, T14, T15, T16],
+    [E1, E2, E3, E4, E5, E6, E7, E8, E9, E10, E11, E12, E13, E14, E15, E16],
+    false
+  >
+): (
+  v: T
+) => Result<
+  ChainOkType<
+    T1,
+    [T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13, T14, T15, T16]
+  >,
+  | E1
+  | E2
+  | E3
+  | E4
+  | E5
+  | E6
+  | E7
+  | E8
+  | E9
+  | E10
+  | E11
+  | E12
+  | E13
+  | E14
+  | E15
+  | E16
+>;
+function c<Fns extends LongChain>(
+  ...fns: LongComposeFns<Fns, false>
+): (
+  v: Parameters<Fns[0]>[0]
+) => Result<LongChainOkType<Fns, false>, LongChainErrType<Fns, false>>;
+function c(...fns: any[]) {
   return (v: any) => {
     const [fn, ...restFns] = fns;
     let result = fn(v);
@@ -0,0 +1,25 @@
+/**
+ * @fileoverview This file defines `ResultError`, which `valueOrThrow` (and
+ * `valueOrReject`) throw in place of an Err's error when that error isn't an
+ * `Error` (e.g., an error code from `Fail("INSUFFICIENT_FUNDS")`), so that
+ * what's thrown always has a message and a stack.
+ */
+import { setCause } from "./utils.js";
+
+export class ResultError<E = unknown> extends Error {
+  public override readonly name = "ResultError";
+  public declare readonly cause: E;
+
+  constructor(cause: E) {
+    super(`Result was an Err: ${describe(cause)}`);
+    setCause(this, cause);
+  }
+}
+
+function describe(value: unknown) {
+  try {
+    return typeof value === "string" ? value : JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
@@ -0,0 +1,94 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { RetryError, Schedule, type RetryAttempt } from "./Schedule.js";
+
+class CustomError extends Error {
+  public override readonly name = "CustomError";
+}
+
+const delays = <E>(schedule: Schedule<E>, attempts: RetryAttempt<E>[]) =>
+  attempts.map((it) => schedule.nextDelay(it));
+
+const nthAttempt = (attempt: number, elapsed = 0): RetryAttempt<unknown> => ({
+  attempt,
+  elapsed,
+  error: new CustomError(),
+});
+
+describe("Schedule", () => {
+  it("should produce fixed and exponential delays, forever", () => {
+    const attempts = [1, 2, 3, 100].map((it) => nthAttempt(it));
+
+    assert.deepStrictEqual(
+      delays(Schedule.fixed(50), attempts),
+      [50, 50, 50, 50]
+    );
+    assert.deepStrictEqual(
+      delays(Schedule.exponential(100), attempts.slice(0, 3)),
+      [100, 200, 400]
+    );
+    assert.deepStrictEqual(
+      delays(Schedule.exponential(100, 3), attempts.slice(0, 3)),
+      [100, 300, 900]
+    );
+  });
+
+  it("should stop after the maximum number of attempts", () => {
+    const schedule = Schedule.fixed(50).maxAttempts(3);
+    assert.deepStrictEqual(
+      delays(
+        schedule,
+        [1, 2, 3].map((it) => nthAttempt(it))
+      ),
+      [50, 50, undefined]
+    );
+  });
+
+  it("should stop if the next attempt would start after the maximum elapsed time", () => {
+    const schedule = Schedule.fixed(50).maxElapsed(1000);
+    assert.deepStrictEqual(
+      delays(schedule, [nthAttempt(1, 900), nthAttempt(2, 951)]),
+      [50, undefined]
+    );
+  });
+
+  it("should cap and jitter delays", () => {
+    const schedule = Schedule.exponential(100)
+      .maxDelay(300)
+      .jittered(() => 0.5);
+
+    assert.deepStrictEqual(
+      delays(
+        schedule,
+        [1, 2, 3].map((it) => nthAttempt(it))
+      ),
+      [50, 100, 150]
+    );
+  });
+
+  it("should only retry errors that satisfy whileError's predicate", () => {
+    const schedule = Schedule.fixed(50).whileError(
+      (e: Error) => e instanceof CustomError
+    );
+
+    assert.deepStrictEqual(
+      delays(schedule, [
+        { attempt: 1, elapsed: 0, error: new CustomError() },
+        { attempt: 2, elapsed: 0, error: new Error() },
+      ]),
+      [50, undefined]
+    );
+  });
+});
+
+describe("RetryError", () => {
+  it("should hold every attempt's error", () => {
+    const errors = [new CustomError("1"), new CustomError("2")];
+    const error = new RetryError(errors);
+
+    assert.strictEqual(error.name, "RetryError");
+    assert.strictEqual(error.message, "Gave up after 2 attempts");
+    assert.deepStrictEqual(error.errors, errors);
+    assert.ok(error instanceof AggregateError);
+  });
+});
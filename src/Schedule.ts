@@ -0,0 +1,131 @@
+/**
+ * @fileoverview This file defines `Schedule`, which describes when (and
+ * whether) `AsyncResult.retry` should retry a failed attempt.
+ *
+ * A schedule starts from a base delay (`Schedule.fixed` or
+ * `Schedule.exponential`), which retries forever, and is then refined by
+ * chaining methods that each return a new schedule.
+ *
+ * @example
+ * ```
+ * const schedule = Schedule.exponential(100)
+ *   .maxDelay(5_000)
+ *   .jittered()
+ *   .maxAttempts(5)
+ *   .whileError((e) => e instanceof TimeoutError);
+ * ```
+ */
+
+export type RetryAttempt<E> = {
+  /** The number of attempts made so far (i.e., 1 after the first failure). */
+  attempt: number;
+
+  /** The error that the latest attempt failed with. */
+  error: E;
+
+  /** Milliseconds since the first attempt started. */
+  elapsed: number;
+};
+
+export type Schedule<E> = _Schedule<E>;
+
+class _Schedule<in E> {
+  constructor(
+    private readonly delayFor: (attempt: RetryAttempt<E>) => number | undefined
+  ) {}
+
+  /**
+   * Returns how many milliseconds to wait before the next attempt, or
+   * undefined if there shouldn't be another attempt.
+   */
+  nextDelay(attempt: RetryAttempt<E>): number | undefined {
+    return this.delayFor(attempt);
+  }
+
+  /**
+   * Stops retrying once `n` attempts (including the first) have been made.
+   */
+  maxAttempts(n: number): Schedule<E> {
+    return this.refine((delay, { attempt }) =>
+      attempt >= n ? undefined : delay
+    );
+  }
+
+  /**
+   * Stops retrying if the next attempt would start more than `ms`
+   * milliseconds after the first one.
+   */
+  maxElapsed(ms: number): Schedule<E> {
+    return this.refine((delay, { elapsed }) =>
+      elapsed + delay > ms ? undefined : delay
+    );
+  }
+
+  /**
+   * Caps each delay at `ms` milliseconds.
+   */
+  maxDelay(ms: number): Schedule<E> {
+    return this.refine((delay) => Math.min(delay, ms));
+  }
+
+  /**
+   * Replaces each delay with a random delay between zero and it (i.e., "full
+   * jitter"), so that many clients retrying at once don't do so in lockstep.
+   */
+  jittered(random: () => number = Math.random): Schedule<E> {
+    return this.refine((delay) => delay * random());
+  }
+
+  /**
+   * Only retries failures whose error satisfies the predicate.
+   */
+  whileError<E2 extends E>(predicate: (error: E2) => boolean): Schedule<E2> {
+    return new _Schedule<E2>((attempt) =>
+      predicate(attempt.error) ? this.nextDelay(attempt) : undefined
+    );
+  }
+
+  // NB: `fn` doesn't get to see the error's type, which keeps Schedule
+  // contravariant in E (so a Schedule<unknown> can retry any error).
+  private refine(
+    fn: (delay: number, attempt: RetryAttempt<unknown>) => number | undefined
+  ): Schedule<E> {
+    return new _Schedule<E>((attempt) => {
+      const delay = this.nextDelay(attempt);
+      return delay === undefined ? undefined : fn(delay, attempt);
+    });
+  }
+}
+
+export const Schedule = {
+  /**
+   * Retries forever, waiting `ms` milliseconds between attempts.
+   */
+  fixed(ms: number): Schedule<unknown> {
+    return new _Schedule(() => ms);
+  },
+
+  /**
+   * Retries forever, waiting `baseMs` milliseconds after the first attempt,
+   * and multiplying the delay by `factor` after each subsequent attempt.
+   */
+  exponential(baseMs: number, factor = 2): Schedule<unknown> {
+    return new _Schedule(({ attempt }) => baseMs * factor ** (attempt - 1));
+  },
+};
+
+/**
+ * The error that `AsyncResult.retry` produces when it gives up. It holds the
+ * error from every attempt, in order.
+ */
+export class RetryError<E = unknown> extends AggregateError {
+  public override readonly name = "RetryError";
+  public declare readonly errors: E[];
+
+  constructor(errors: E[]) {
+    super(
+      errors,
+      `Gave up after ${errors.length} attempt${errors.length === 1 ? "" : "s"}`
+    );
+  }
+}
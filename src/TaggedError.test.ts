@@ -0,0 +1,76 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { Err, Ok, type Result } from "./Result.js";
+import { TaggedError } from "./TaggedError.js";
+
+class NotFoundError extends TaggedError("NotFound")<{ id: string }> {}
+class ConflictError extends TaggedError("Conflict") {}
+class TimeoutError extends TaggedError("Timeout") {}
+
+describe("TaggedError", () => {
+  it("should produce Error subclasses with a literal tag and typed payload", () => {
+    const error = new NotFoundError({ id: "123" }, { message: "Not found" });
+    const tag: "NotFound" = error._tag;
+    const id: string = error.id;
+
+    assert.ok(error instanceof Error);
+    assert.ok(error instanceof NotFoundError);
+    assert.strictEqual(tag, "NotFound");
+    assert.strictEqual(id, "123");
+    assert.strictEqual(error.name, "NotFound");
+    assert.strictEqual(error.message, "Not found");
+    assert.ok(error.stack?.includes("Not found"));
+  });
+
+  it("should only require a payload if the payload type has required fields", () => {
+    new ConflictError();
+    new ConflictError({}, { message: "hi" });
+
+    // @ts-expect-error
+    new NotFoundError();
+
+    // @ts-expect-error
+    new NotFoundError({ id: 123 });
+  });
+
+  it("should not allow the payload to override reserved properties", () => {
+    // @ts-expect-error
+    class _BadError extends TaggedError("Bad")<{ _tag: "Other" }> {}
+  });
+
+  it("should support `cause`", () => {
+    const cause = new Error("low-level");
+    const error = new ConflictError({}, { cause });
+    const error2 = new ConflictError();
+
+    assert.strictEqual(error.cause, cause);
+    assert.strictEqual(Object.keys(error).includes("cause"), false);
+    assert.strictEqual("cause" in error2, false);
+  });
+
+  it("should make structurally identical error classes distinct", () => {
+    // @ts-expect-error
+    const _x: ConflictError = new TimeoutError();
+
+    // @ts-expect-error
+    const _y: ConflictError = Object.assign(new Error(), {
+      _tag: "Conflict" as const,
+    });
+  });
+
+  it("should work with catchInstanceOf and catchTag", () => {
+    const result: Result<string, ConflictError> = Err<
+      NotFoundError | ConflictError
+    >(new NotFoundError({ id: "123" })).catchInstanceOf(
+      NotFoundError,
+      (e) => e.id
+    );
+
+    const result2: Result<string, TimeoutError> = Err<
+      ConflictError | TimeoutError
+    >(new ConflictError()).catchTag("Conflict", (e) => e._tag);
+
+    assert.deepStrictEqual(result, Ok("123"));
+    assert.deepStrictEqual(result2, Ok("Conflict"));
+  });
+});
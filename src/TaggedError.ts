@@ -0,0 +1,68 @@
+/**
+ * @fileoverview This file defines `TaggedError`, a factory for Error
+ * subclasses that carry a string literal `_tag`.
+ *
+ * TS's type system is structural, so two error classes with the same shape
+ * (e.g., two classes that just extend Error without adding any fields) are
+ * indistinguishable, and collapse into each other in the unions produced by
+ * `then_`, `catch_`, etc. Giving each error type a literal `_tag` makes them
+ * distinct, and lets callers handle them by tag with `catchTag`/`catchTags`.
+ *
+ * @example
+ * ```
+ * class NotFoundError extends TaggedError("NotFound")<{ id: string }> {}
+ *
+ * const error = new NotFoundError({ id: "123" }, { cause: lowLevelError });
+ * error._tag; // "NotFound"
+ * error.id; // "123"
+ * ```
+ */
+import { setCause } from "./utils.js";
+
+declare const TaggedErrorBrand: unique symbol;
+
+export type TaggedErrorOptions = { message?: string; cause?: unknown };
+
+export type TaggedErrorInstance<Tag extends string> = Error & {
+  readonly _tag: Tag;
+  readonly cause?: unknown;
+
+  // Only instances constructed by a TaggedError class have this (type-only)
+  // property, so an arbitrary object with a matching `_tag` isn't assignable.
+  readonly [TaggedErrorBrand]: Tag;
+};
+
+// The payload can't redefine the properties that the base class manages.
+type ReservedKeys = "_tag" | "name" | "message" | "cause" | "stack";
+
+export type TaggedErrorConstructor<Tag extends string> = new <
+  Payload extends Record<string, unknown> & {
+    [K in ReservedKeys]?: never;
+  } = {}
+>(
+  ...args: {} extends Payload
+    ? [payload?: Payload, options?: TaggedErrorOptions]
+    : [payload: Payload, options?: TaggedErrorOptions]
+) => TaggedErrorInstance<Tag> & Readonly<Payload>;
+
+export function TaggedError<Tag extends string>(
+  tag: Tag
+): TaggedErrorConstructor<Tag> {
+  class TaggedErrorBase extends Error {
+    readonly _tag: Tag = tag;
+    override readonly name: string = tag;
+
+    constructor(payload?: object, options: TaggedErrorOptions = {}) {
+      super(options.message);
+      Object.assign(this, payload);
+
+      // NB: like with the native Error constructor, `cause` is only present
+      // if it was given.
+      if ("cause" in options) {
+        setCause(this, options.cause);
+      }
+    }
+  }
+
+  return TaggedErrorBase as unknown as TaggedErrorConstructor<Tag>;
+}
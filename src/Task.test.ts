@@ -0,0 +1,101 @@
+import assert from "node:assert";
+import { describe, it, mock } from "node:test";
+import { AsyncResult } from "./AsyncResult.js";
+import { Err, Ok } from "./Result.js";
+import { Task } from "./Task.js";
+
+class CustomError extends Error {
+  public override readonly name = "CustomError";
+}
+class AnotherError extends Error {
+  public override readonly name = "AnotherError";
+}
+
+describe("Task", () => {
+  it("should not start the computation until it's run", async () => {
+    const computation = mock.fn(async () => 42);
+    const task = Task(computation).then_((it) => it + 1);
+
+    assert.strictEqual(computation.mock.callCount(), 0);
+    assert.strictEqual(await task.run().valueOrReject(), 43);
+    assert.strictEqual(computation.mock.callCount(), 1);
+  });
+
+  it("should restart the computation on every run", async () => {
+    let count = 0;
+    const task = Task(() => AsyncResult(Promise.resolve(++count)));
+
+    assert.strictEqual(await task.run().valueOrReject(), 1);
+    assert.strictEqual(await task.run().valueOrReject(), 2);
+  });
+
+  it("should turn a synchronous throw into a rejection of the run", async () => {
+    const hiError = new Error("Hi");
+    const task = Task(() => {
+      throw hiError;
+    });
+
+    await assert.rejects(task.run().valueOrReject(), hiError);
+  });
+
+  describe("then_/catch_", () => {
+    it("should have the same semantics as on AsyncResult", async () => {
+      const hiError = new Error("Hi");
+      const task: Task<number, CustomError> = Task(() =>
+        Math.random() > 2 ? Ok(1) : Err(new CustomError())
+      );
+
+      const result: Task<string, AnotherError> = task
+        .then_((it) => String(it))
+        .catch_(() => Err(new AnotherError()));
+
+      const result2 = Task(() => Promise.reject(hiError)).then_(
+        () => 1,
+        () => 2,
+        (reason) => (reason === hiError ? 3 : 4)
+      );
+
+      assert.deepStrictEqual(
+        await result.run().valueOrFallback((it) => it),
+        new AnotherError()
+      );
+      assert.strictEqual(await result2.run().valueOrReject(), 3);
+      assert.strictEqual(
+        await task
+          .catch_(() => Ok(0))
+          .run()
+          .valueOrReject(),
+        0
+      );
+    });
+  });
+
+  describe("finally_", () => {
+    it("should call the callback at the end of every run", async () => {
+      const cb = mock.fn(() => {});
+      const task = Task(() => Ok(42)).finally_(cb);
+
+      assert.strictEqual(cb.mock.callCount(), 0);
+      assert.strictEqual(await task.run().valueOrReject(), 42);
+      assert.strictEqual(await task.run().valueOrReject(), 42);
+      assert.strictEqual(cb.mock.callCount(), 2);
+    });
+  });
+
+  describe("thenChain", () => {
+    it("should give each run its own history", async () => {
+      const histories: unknown[] = [];
+      const task = Task(() => Ok(1)).thenChain(
+        (it) => it + 1,
+        (it, history) => {
+          histories.push(history);
+          return it + 1;
+        }
+      );
+
+      assert.strictEqual(await task.run().valueOrReject(), 3);
+      assert.strictEqual(await task.run().valueOrReject(), 3);
+      assert.deepStrictEqual(histories, [[1], [1]]);
+    });
+  });
+});
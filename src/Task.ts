@@ -0,0 +1,165 @@
+/**
+ * @fileoverview This file defines `Task`, a lazy counterpart to `AsyncResult`.
+ *
+ * An AsyncResult represents a computation that's already underway, so it can
+ * only ever produce one result. A Task, by contrast, just describes a
+ * computation: nothing happens until `run()` is called, and each call to
+ * `run()` starts the computation afresh, returning a new AsyncResult. This
+ * makes Tasks the natural thing to hand to code that needs to (re)start a
+ * computation on its own schedule, e.g., for retries.
+ *
+ * Chaining methods like `then_` return a new Task, whose callbacks are run
+ * (once per run) after the original Task's computation.
+ *
+ * @example
+ * ```
+ * const loadUser = Task(() => fetchUser(id)).then_((user) => user.profile);
+ *
+ * const profile = await loadUser.run().valueOrReject(); // fetches the user
+ * const profileAgain = await loadUser.run().valueOrReject(); // fetches again
+ * ```
+ */
+import { AsyncResult, type ResultPromisable } from "./AsyncResult.js";
+import type {
+  ChainCallbacks,
+  ChainOkType,
+  LongChain,
+  LongChainCallbacks,
+  LongChainErrType,
+  LongChainOkType,
+  NoStep,
+} from "./Result.js";
+
+export type Task<T, E> = _Task<T, E>;
+
+class _Task<T, E> {
+  constructor(private readonly computation: () => ResultPromisable<T, E>) {}
+
+  /**
+   * Starts the computation, returning an AsyncResult for its outcome. A
+   * synchronous throw from the computation becomes a rejection of the
+   * returned AsyncResult, as with `AsyncResult.fromFunc`.
+   */
+  run(): AsyncResult<T, E> {
+    return AsyncResult.fromFunc(this.computation);
+  }
+
+  /**
+   * @see {_AsyncResult.then_}
+   */
+  then_<T2, E2 = never>(
+    okCb: (arg: T) => ResultPromisable<T2, E2>,
+    errCb?: (arg: E) => ResultPromisable<T2, E2>,
+    rejectionCb?: (arg: unknown) => ResultPromisable<T2, E2>
+  ): Task<T2, E | E2> {
+    return new _Task(() => this.run().then_(okCb, errCb, rejectionCb));
+  }
+
+  /**
+   * @see {_AsyncResult.catch_}
+   */
+  catch_<T2, E2 = never>(
+    errCb: (arg: E) => ResultPromisable<T2, E2>,
+    rejectionCb?: (arg: unknown) => ResultPromisable<T2, E2>
+  ): Task<T | T2, E2> {
+    return new _Task(() => this.run().catch_(errCb, rejectionCb));
+  }
+
+  /**
+   * @see {_AsyncResult.finally_}. The callback is called at the end of every
+   * run.
+   */
+  finally_<E2 = never>(
+    cb: () => void | ResultPromisable<never, E2>
+  ): Task<T, E | E2> {
+    return new _Task(() => this.run().finally_(cb));
+  }
+
+  /**
+   * @see {_AsyncResult.thenChain}. Each run gets its own history.
+   */
+  thenChain<
+    T2 = NoStep,
+    T3 = NoStep,
+    T4 = NoStep,
+    T5 = NoStep,
+    T6 = NoStep,
+    T7 = NoStep,
+    T8 = NoStep,
+    T9 = NoStep,
+    T10 = NoStep,
+    T11 = NoStep,
+    T12 = NoStep,
+    T13 = NoStep,
+    T14 = NoStep,
+    T15 = NoStep,
+    T16 = NoStep,
+    T17 = NoStep,
+    E2 = never,
+    E3 = never,
+    E4 = never,
+    E5 = never,
+    E6 = never,
+    E7 = never,
+    E8 = never,
+    E9 = never,
+    E10 = never,
+    E11 = never,
+    E12 = never,
+    E13 = never,
+    E14 = never,
+    E15 = never,
+    E16 = never,
+    E17 = never
+  >(
+    ...cbs: ChainCallbacks<
+      T,
+      [T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13, T14, T15, T16, T17],
+      [E2, E3, E4, E5, E6, E7, E8, E9, E10, E11, E12, E13, E14, E15, E16, E17],
+      true
+    >
+  ): Task<
+    ChainOkType<
+      T,
+      [T2, T3, T4, T5, T6, T7, T8, T9, T10, T11, T12, T13, T14, T15, T16, T17]
+    >,
+    | E
+    | E2
+    | E3
+    | E4
+    | E5
+    | E6
+    | E7
+    | E8
+    | E9
+    | E10
+    | E11
+    | E12
+    | E13
+    | E14
+    | E15
+    | E16
+    | E17
+  >;
+  thenChain<Cbs extends LongChain>(
+    ...cbs: LongChainCallbacks<T, Cbs, true>
+  ): Task<LongChainOkType<Cbs, true>, E | LongChainErrType<Cbs, true>>;
+  thenChain(
+    ...cbs: ((arg: any, history: any) => ResultPromisable<any, any>)[]
+  ): Task<any, any> {
+    return new _Task(() => {
+      const result: AsyncResult<any, any> = this.run();
+      return result.thenChain(...(cbs as [any]));
+    });
+  }
+}
+
+/**
+ * Creates a Task from a function that starts the computation. The function
+ * isn't called until the Task is run, and is called again on every run.
+ */
+export function Task<T, E = never>(
+  computation: () => ResultPromisable<T, E>
+): Task<T, E> {
+  return new _Task(computation);
+}
@@ -1,2 +1,25 @@
-export { Result, Ok, Err, isResult } from "./Result.js";
+export {
+  Result,
+  Ok,
+  Err,
+  Fail,
+  isResult,
+  isOk,
+  isErr,
+  type OkResult,
+  type ErrResult,
+} from "./Result.js";
 export { AsyncResult } from "./AsyncResult.js";
+export { AbortedError } from "./AbortedError.js";
+export { ItemError } from "./ItemError.js";
+export { ResultError } from "./ResultError.js";
+export { Task } from "./Task.js";
+export { Schedule, RetryError } from "./Schedule.js";
+export { type Clock } from "./Clock.js";
+export { TaggedError } from "./TaggedError.js";
+export {
+  ContextError,
+  errorChain,
+  underlyingError,
+  type UnderlyingError,
+} from "./ContextError.js";
@@ -0,0 +1,227 @@
+import assert from "node:assert";
+import { describe, it, mock } from "node:test";
+import { AsyncResult } from "./AsyncResult.js";
+import { ContextError } from "./ContextError.js";
+import {
+  context,
+  flatMap,
+  map,
+  mapErr,
+  orElse,
+  recover,
+  tap,
+  tapErr,
+  type Operator,
+} from "./operators.js";
+import { Err, Fail, Ok, type Result } from "./Result.js";
+
+class CustomError extends Error {
+  public override readonly name = "CustomError";
+}
+
+describe("pipe", () => {
+  it("should pass the result through each operator in order", () => {
+    const calls: string[] = [];
+    const op = (name: string) => (result: any) => {
+      calls.push(name);
+      return result;
+    };
+
+    const result = Ok(1).pipe(op("first"), op("second"), op("third"));
+    assert.deepStrictEqual(result, Ok(1));
+    assert.deepStrictEqual(calls, ["first", "second", "third"]);
+  });
+
+  it("should infer each operator's types from the previous one", async () => {
+    const result: Result<string, number> = (
+      Ok(2) as Result<number, CustomError>
+    ).pipe(
+      map((x) => x * 2),
+      flatMap((x) => (x > 0 ? Ok(String(x)) : Fail("negative"))),
+      mapErr((e) => (e === "negative" ? -1 : e.message.length))
+    );
+    assert.deepStrictEqual(result, Ok("4"));
+
+    const asyncResult: AsyncResult<string, ContextError<CustomError>> = (
+      AsyncResult(Err(new CustomError())) as AsyncResult<number, CustomError>
+    ).pipe(
+      map((x) => x.toFixed()),
+      context("formatting")
+    );
+    assert.deepStrictEqual(
+      await asyncResult,
+      Err(new ContextError("formatting", new CustomError()))
+    );
+  });
+
+  it("should compose with user-defined operators", async () => {
+    const double = <E>(): Operator<number, E, number, E> => map((x) => x * 2);
+
+    assert.deepStrictEqual(Ok(1).pipe(double(), double()), Ok(4));
+    assert.deepStrictEqual(await AsyncResult(1).pipe(double()), Ok(2));
+
+    function _typeTest() {
+      // @ts-expect-error double needs a number.
+      Ok("1").pipe(double());
+    }
+  });
+
+  it("should infer the operators' types in long pipes", () => {
+    const result: Result<string, never> = Ok(1).pipe(
+      map((x) => x + 1),
+      map((x) => x * 2),
+      map((x) => x + 1),
+      map((x) => x * 2),
+      map((x) => x + 1),
+      map((x) => x * 2),
+      map((x) => x + 1),
+      map((x) => x * 2),
+      map((x) => x.toFixed())
+    );
+    assert.deepStrictEqual(result, Ok("46"));
+  });
+
+  it("should check pipes of more than 16 operators", async () => {
+    const inc: Operator<number, never, number, never> = map((x) => x + 1);
+    const toStr: Operator<number, never, string, never> = map(String);
+
+    const result: AsyncResult<string, never> = AsyncResult(0).pipe(
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      toStr
+    );
+    assert.deepStrictEqual(await result, Ok("17"));
+
+    function _typeTest() {
+      Ok(0).pipe(
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        toStr,
+        // @ts-expect-error the operator before this one returns a string.
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc
+      );
+    }
+  });
+});
+
+describe("operators", () => {
+  describe("map", () => {
+    it("should only transform Oks, without flattening", async () => {
+      const nested = Ok(1).pipe(map((x) => Ok(x)));
+      assert.deepStrictEqual(nested, Ok(Ok(1)));
+
+      const error = new CustomError();
+      assert.deepStrictEqual(
+        Err(error).pipe(map((x: number) => x + 1)),
+        Err(error)
+      );
+      assert.deepStrictEqual(
+        await AsyncResult(1).pipe(map((x) => x + 1)),
+        Ok(2)
+      );
+    });
+  });
+
+  describe("mapErr", () => {
+    it("should transform Errs into (possibly non-Error) Errs", async () => {
+      const result = Err(new CustomError("boom")).pipe(
+        mapErr((e) => ({ code: 500, message: e.message }))
+      );
+      assert.deepStrictEqual(result, Fail({ code: 500, message: "boom" }));
+      assert.deepStrictEqual(Ok(1).pipe(mapErr(() => "unreachable")), Ok(1));
+      assert.deepStrictEqual(
+        await AsyncResult(Err(new CustomError())).pipe(mapErr(() => 42)),
+        Fail(42)
+      );
+    });
+  });
+
+  describe("flatMap", () => {
+    it("should replace Oks with the returned Result", async () => {
+      const error = new CustomError();
+      assert.deepStrictEqual(Ok(1).pipe(flatMap(() => Err(error))), Err(error));
+      assert.deepStrictEqual(
+        await AsyncResult(1).pipe(flatMap((x) => Ok(x + 1))),
+        Ok(2)
+      );
+    });
+  });
+
+  describe("orElse", () => {
+    it("should replace Errs with the returned Result", async () => {
+      assert.deepStrictEqual(
+        Err(new CustomError()).pipe(orElse(() => Ok(1))),
+        Ok(1)
+      );
+      assert.deepStrictEqual(
+        await AsyncResult(Err(new CustomError())).pipe(
+          orElse((e) => Fail(e.name))
+        ),
+        Fail("CustomError")
+      );
+    });
+  });
+
+  describe("recover", () => {
+    it("should replace Errs with the returned value or Result", async () => {
+      const result: Result<number | string, never> = (
+        Err(new CustomError()) as Result<number, CustomError>
+      ).pipe(recover((e) => e.name));
+
+      assert.deepStrictEqual(result, Ok("CustomError"));
+      assert.deepStrictEqual(
+        await AsyncResult(Err(new CustomError())).pipe(
+          recover(() => Fail("still failing"))
+        ),
+        Fail("still failing")
+      );
+    });
+  });
+
+  describe("tap and tapErr", () => {
+    it("should call the callback for side effects only", async () => {
+      const onOk = mock.fn((_value: number) => "ignored");
+      const onErr = mock.fn((_error: CustomError) => "ignored");
+      const error = new CustomError();
+
+      assert.deepStrictEqual(Ok(1).pipe(tap(onOk), tapErr(onErr)), Ok(1));
+      assert.deepStrictEqual(
+        await AsyncResult(Err(error)).pipe(tap(onOk), tapErr(onErr)),
+        Err(error)
+      );
+      assert.deepStrictEqual(onOk.mock.calls[0]?.arguments, [1]);
+      assert.deepStrictEqual(onErr.mock.calls[0]?.arguments, [error]);
+      assert.strictEqual(onOk.mock.callCount(), 1);
+      assert.strictEqual(onErr.mock.callCount(), 1);
+    });
+  });
+});
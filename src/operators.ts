@@ -0,0 +1,103 @@
+/**
+ * @fileoverview This file defines standalone, data-last versions of the most
+ * common Result/AsyncResult operations, for use with `pipe()`:
+ *
+ * ```
+ * import { map, context } from "ts-async-result/operators";
+ *
+ * const port = readConfig().pipe(
+ *   map((config) => config.port),
+ *   context("reading the port")
+ * );
+ * ```
+ *
+ * Each operator works on both Results and AsyncResults, returning the same
+ * kind of result it's given. Because they aren't methods, bundlers can drop
+ * the ones that aren't used, and new operators can be written (as functions
+ * returning an `Operator`) that compose with these ones.
+ *
+ * Most operators just call the method of the same name (e.g., `map` calls
+ * `result.map`), so they share its strict semantics.
+ *
+ * NB: the types that an operator passes through untouched (e.g., the Err type,
+ * for `map`) are inferred from the `pipe()` call the operator is given to. If
+ * an operator is instead called directly on a result, those types are
+ * `unknown`.
+ */
+import type { AsyncResult } from "./AsyncResult.js";
+import type { ContextError } from "./ContextError.js";
+import type { Result } from "./Result.js";
+
+/**
+ * A function from a `Result<T, E>` to a `Result<T2, E2>`, which also maps an
+ * `AsyncResult<T, E>` to an `AsyncResult<T2, E2>`.
+ */
+export interface Operator<T, E, T2, E2> {
+  (result: Result<T, E>): Result<T2, E2>;
+  (result: AsyncResult<T, E>): AsyncResult<T2, E2>;
+}
+
+/**
+ * @see {_Result.map}
+ */
+export function map<T, U, E>(fn: (value: T) => U): Operator<T, E, U, E> {
+  return (result: any) => result.map(fn);
+}
+
+/**
+ * @see {_Result.mapErr}
+ */
+export function mapErr<E, E2, T>(fn: (error: E) => E2): Operator<T, E, T, E2> {
+  return (result: any) => result.mapErr(fn);
+}
+
+/**
+ * @see {_Result.flatMap}
+ */
+export function flatMap<T, T2, E2, E>(
+  fn: (value: T) => Result<T2, E2>
+): Operator<T, E, T2, E | E2> {
+  return (result: any) => result.flatMap((value: T) => fn(value));
+}
+
+/**
+ * @see {_Result.orElse}
+ */
+export function orElse<E, T2, E2, T>(
+  fn: (error: E) => Result<T2, E2>
+): Operator<T, E, T | T2, E2> {
+  return (result: any) => result.orElse((error: E) => fn(error));
+}
+
+/**
+ * If the result is an Err, replaces it with the result of `fn`, which (like
+ * with `catch_`) can be a Result or a plain value that'll be wrapped in Ok.
+ */
+export function recover<E, T2, E2 = never, T = unknown>(
+  fn: (error: E) => T2 | Result<T2, E2>
+): Operator<T, E, T | T2, E2> {
+  return (result: any) => result.catch_((error: E) => fn(error));
+}
+
+/**
+ * @see {_Result.tap}
+ */
+export function tap<T, E>(fn: (value: T) => void): Operator<T, E, T, E> {
+  return (result: any) => result.tap(fn);
+}
+
+/**
+ * @see {_Result.tapErr}
+ */
+export function tapErr<E, T>(fn: (error: E) => void): Operator<T, E, T, E> {
+  return (result: any) => result.tapErr(fn);
+}
+
+/**
+ * @see {_Result.context}
+ */
+export function context<T, E>(
+  message: string
+): Operator<T, E, T, ContextError<E>> {
+  return (result: any) => result.context(message);
+}
@@ -0,0 +1,115 @@
+import { describe, it } from "node:test";
+import { AsyncResult } from "./AsyncResult.js";
+import { Err, Fail, Ok, type Result } from "./Result.js";
+import type {
+  AsyncErrType,
+  AsyncErrTypes,
+  AsyncOkType,
+  AsyncOkTypes,
+  ErrorsOf,
+  ErrType,
+  ErrTypes,
+  MergeResults,
+  OkType,
+  OkTypes,
+  ResultFn,
+  ResultPromisable,
+  UnwrapAsync,
+  ValueOf,
+} from "./types.js";
+
+class CustomError extends Error {
+  public override readonly name = "CustomError";
+}
+
+// These tests only check types: each `expectType` call fails to compile if
+// the two types aren't identical.
+type Equals<A, B> = (<X>() => X extends A ? 1 : 2) extends <X>() => X extends B
+  ? 1
+  : 2
+  ? true
+  : false;
+
+const expectType = <_ extends true>() => {};
+
+// @ts-expect-error types that differ only slightly still aren't equal.
+expectType<Equals<number, number | undefined>>();
+
+describe("types", () => {
+  it("should extract the Ok and Err types of Results and AsyncResults", () => {
+    type R = Result<number, CustomError>;
+    type A = AsyncResult<string, "NOT_FOUND">;
+
+    expectType<Equals<OkType<R>, number>>();
+    expectType<Equals<ErrType<R>, CustomError>>();
+    expectType<Equals<OkTypes<[R, Result<string, never>]>, [number, string]>>();
+    expectType<
+      Equals<ErrTypes<[R, Result<string, never>]>, [CustomError, never]>
+    >();
+    expectType<Equals<AsyncOkType<A>, string>>();
+    expectType<Equals<AsyncErrType<A>, "NOT_FOUND">>();
+    expectType<Equals<AsyncOkTypes<[A]>, [string]>>();
+    expectType<Equals<AsyncErrTypes<[A]>, ["NOT_FOUND"]>>();
+
+    const _promisable: ResultPromisable<number, CustomError>[] = [
+      AsyncResult(1),
+      Promise.resolve(Err(new CustomError())),
+    ];
+
+    // @ts-expect-error the error type doesn't match.
+    const _wrong: ResultPromisable<number, CustomError> = Promise.resolve(
+      Fail("NOT_FOUND")
+    );
+  });
+
+  it("should extract the value and errors of (async) Result-returning functions", () => {
+    const parse = (input: string) =>
+      input === "" ? Fail("EMPTY") : Ok(Number(input));
+    const load = async (id: number) =>
+      id > 0 ? Ok({ id }) : Err(new CustomError());
+    const loadAsync = (id: number) => AsyncResult(load(id));
+
+    expectType<Equals<ValueOf<typeof parse>, number>>();
+    expectType<Equals<ErrorsOf<typeof parse>, "EMPTY">>();
+    expectType<Equals<ValueOf<typeof load>, { id: number }>>();
+    expectType<Equals<ErrorsOf<typeof load>, CustomError>>();
+    expectType<Equals<ValueOf<typeof loadAsync>, { id: number }>>();
+    expectType<Equals<ErrorsOf<typeof loadAsync>, CustomError>>();
+  });
+
+  it("should unwrap and merge results", () => {
+    type R = Result<number, CustomError>;
+    type A = AsyncResult<string, "NOT_FOUND">;
+
+    expectType<Equals<UnwrapAsync<A>, Result<string, "NOT_FOUND">>>();
+    expectType<Equals<UnwrapAsync<Promise<R>>, R>>();
+    expectType<Equals<UnwrapAsync<Promise<number>>, Result<number, never>>>();
+    expectType<
+      Equals<UnwrapAsync<Result<number, never> | Result<never, CustomError>>, R>
+    >();
+
+    expectType<
+      Equals<
+        MergeResults<R, Result<string, "NOT_FOUND">>,
+        Result<number | string, CustomError | "NOT_FOUND">
+      >
+    >();
+    expectType<
+      Equals<
+        MergeResults<R, A>,
+        AsyncResult<number | string, CustomError | "NOT_FOUND">
+      >
+    >();
+  });
+
+  it("should describe Result-returning functions", () => {
+    const parse: ResultFn<[string], number, "EMPTY"> = (input) =>
+      input === "" ? Fail("EMPTY") : Ok(Number(input));
+
+    expectType<Equals<Parameters<typeof parse>, [string]>>();
+    expectType<Equals<ErrorsOf<typeof parse>, "EMPTY">>();
+
+    // @ts-expect-error the function can fail in ways ResultFn doesn't allow.
+    const _wrong: ResultFn<[], number, "EMPTY"> = () => Fail("OTHER");
+  });
+});
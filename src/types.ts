@@ -0,0 +1,75 @@
+/**
+ * @fileoverview This file gathers the type-level helpers for working with
+ * Results and AsyncResults, for import from `ts-async-result/types`:
+ *
+ * ```
+ * import type { ErrorsOf, ValueOf } from "ts-async-result/types";
+ *
+ * type LoadUserError = ErrorsOf<typeof loadUser>;
+ * ```
+ *
+ * Some are the same helpers that the library uses for its own signatures;
+ * the rest build on them. There's no runtime code here.
+ */
+import type { AsyncResult } from "./AsyncResult.js";
+import type {
+  ErrType,
+  Result,
+  ReturnedErrType,
+  ReturnedOkType,
+} from "./Result.js";
+
+export type {
+  AsyncErrType,
+  AsyncErrTypes,
+  AsyncOkType,
+  AsyncOkTypes,
+  ResultPromisable,
+} from "./AsyncResult.js";
+export type { ErrType, ErrTypes, OkType, OkTypes } from "./Result.js";
+
+/**
+ * The Result that an AsyncResult, or a promise for a Result, settles to. A
+ * (promise for a) plain value is treated like an Ok, and a union of Results is
+ * merged into a single Result.
+ */
+export type UnwrapAsync<R> = Result<
+  ReturnedOkType<R, true>,
+  ReturnedErrType<R, true>
+>;
+
+/**
+ * The Ok type of the Result (or AsyncResult, or promise for a Result) that a
+ * function returns, e.g. `ValueOf<typeof loadUser>`.
+ */
+export type ValueOf<F extends (...args: any[]) => unknown> = ReturnedOkType<
+  ReturnType<F>,
+  true
+>;
+
+/**
+ * The Err type of the Result (or AsyncResult, or promise for a Result) that a
+ * function returns, e.g. `ErrorsOf<typeof loadUser>`.
+ */
+export type ErrorsOf<F extends (...args: any[]) => unknown> = ReturnedErrType<
+  ReturnType<F>,
+  true
+>;
+
+/**
+ * A single result type that can hold either of two results: a Result if both
+ * are Results, or an AsyncResult if either is an AsyncResult.
+ */
+export type MergeResults<
+  A extends Result<any, any> | AsyncResult<any, any>,
+  B extends Result<any, any> | AsyncResult<any, any>
+> = [A | B] extends [Result<any, any>]
+  ? Result<ReturnedOkType<A | B, false>, ErrType<A | B>>
+  : AsyncResult<ReturnedOkType<A | B, true>, ReturnedErrType<A | B, true>>;
+
+/**
+ * A function that takes `Args` and returns a `Result<T, E>`.
+ */
+export type ResultFn<Args extends unknown[], T, E> = (
+  ...args: Args
+) => Result<T, E>;
@@ -17,3 +17,25 @@ export type UnionToIntersection<Union> =
     : never;
 
 export type NonEmptyArray<T> = [T, ...T[]];
+
+export type AnyFunction = (...args: any[]) => any;
+
+/**
+ * Sets `error.cause` the way the native Error constructor does (i.e., as a
+ * non-enumerable own property). We can't just pass `{ cause }` to `super()`,
+ * since the ES2022 `Error(message, options)` signature isn't in our TS lib.
+ */
+export function setCause(error: Error, cause: unknown) {
+  Object.defineProperty(error, "cause", {
+    value: cause,
+    writable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * Sets `fn.name`, which stack traces and tracing tools use to identify it.
+ */
+export function withName<F extends AnyFunction>(fn: F, name: string): F {
+  return Object.defineProperty(fn, "name", { value: name, configurable: true });
+}